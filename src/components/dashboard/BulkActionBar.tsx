@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CalendarIcon, Tags, Trash2, X, XCircle } from "lucide-react";
+import { Task, TaskPriority, User } from "@/lib/types";
+import { applyBulkAction, getAssignableUsers } from "@/lib/dataService.ts";
+import { BulkAction, BulkActionResult } from "@/lib/bulkActions";
+import { getWorkflowStates } from "@/lib/workflow";
+import { formatPriority } from "@/lib/utils";
+
+interface BulkActionBarProps {
+  selectedTasks: Task[];
+  allTasks: Task[];
+  currentUser: User;
+  onClearSelection: () => void;
+  onComplete: (failedTaskIds: string[]) => void; // Failed tasks stay selected for a retry
+}
+
+const parseTagList = (value: string): string[] =>
+  value.split(",").map(tag => tag.trim()).filter(Boolean);
+
+export function BulkActionBar({ selectedTasks, allTasks, currentUser, onClearSelection, onComplete }: BulkActionBarProps) {
+  const [assignableUsers, setAssignableUsers] = useState<User[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [failures, setFailures] = useState<BulkActionResult[]>([]);
+  const [tagsToAdd, setTagsToAdd] = useState("");
+  const [tagsToRemove, setTagsToRemove] = useState("");
+  const [shiftDays, setShiftDays] = useState("7");
+
+  useEffect(() => {
+    getAssignableUsers(currentUser.id).then(users => setAssignableUsers(Array.isArray(users) ? users : []));
+  }, [currentUser.id]);
+
+  const runAction = async (action: BulkAction) => {
+    setIsApplying(true);
+    try {
+      const results = await applyBulkAction(selectedTasks, action, allTasks);
+      const failed = results.filter(result => !result.success);
+      setFailures(failed);
+      onComplete(failed.map(result => result.task.id));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleDelete = () => {
+    const count = selectedTasks.length;
+    if (!confirm(`Delete ${count} task${count === 1 ? "" : "s"}? This cannot be undone.`)) return;
+    runAction({ type: "delete" });
+  };
+
+  const handleApplyTags = () => {
+    const add = parseTagList(tagsToAdd);
+    const remove = parseTagList(tagsToRemove);
+    if (add.length === 0 && remove.length === 0) return;
+    runAction({ type: "tags", add, remove });
+    setTagsToAdd("");
+    setTagsToRemove("");
+  };
+
+  const handleShiftDates = () => {
+    const days = parseInt(shiftDays, 10);
+    if (!days) return;
+    runAction({ type: "shiftTargetDate", days });
+  };
+
+  return (
+    <>
+      <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 rounded-md border bg-background p-3 shadow-sm">
+        <span className="text-sm font-medium">{selectedTasks.length} selected</span>
+        <Button variant="ghost" size="sm" onClick={onClearSelection} disabled={isApplying}>
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <Select value="" onValueChange={(assigneeId) => runAction({ type: "reassign", assigneeId })} disabled={isApplying}>
+            <SelectTrigger className="h-9 w-[150px]">
+              <SelectValue placeholder="Reassign" />
+            </SelectTrigger>
+            <SelectContent>
+              {assignableUsers.map(user => (
+                <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value="" onValueChange={(status) => runAction({ type: "status", status })} disabled={isApplying}>
+            <SelectTrigger className="h-9 w-[150px]">
+              <SelectValue placeholder="Set status" />
+            </SelectTrigger>
+            <SelectContent>
+              {getWorkflowStates().map(state => (
+                <SelectItem key={state.id} value={state.id}>{state.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value="" onValueChange={(priority) => runAction({ type: "priority", priority })} disabled={isApplying}>
+            <SelectTrigger className="h-9 w-[150px]">
+              <SelectValue placeholder="Set priority" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(TaskPriority).map(priority => (
+                <SelectItem key={priority} value={priority}>{formatPriority(priority)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isApplying}>
+                <Tags className="h-4 w-4 mr-1" />
+                Tags
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="bulk-add-tags">Add tags</Label>
+                <Input id="bulk-add-tags" value={tagsToAdd} onChange={(e) => setTagsToAdd(e.target.value)} placeholder="design, q3" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="bulk-remove-tags">Remove tags</Label>
+                <Input id="bulk-remove-tags" value={tagsToRemove} onChange={(e) => setTagsToRemove(e.target.value)} placeholder="backlog" />
+              </div>
+              <Button size="sm" className="w-full" onClick={handleApplyTags} disabled={!tagsToAdd.trim() && !tagsToRemove.trim()}>
+                Apply
+              </Button>
+            </PopoverContent>
+          </Popover>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isApplying}>
+                <CalendarIcon className="h-4 w-4 mr-1" />
+                Shift dates
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="bulk-shift-days">Move target dates by (days)</Label>
+                <Input id="bulk-shift-days" type="number" value={shiftDays} onChange={(e) => setShiftDays(e.target.value)} />
+                <p className="text-xs text-muted-foreground">Use a negative number to bring dates forward.</p>
+              </div>
+              <Button size="sm" className="w-full" onClick={handleShiftDates} disabled={!parseInt(shiftDays, 10)}>
+                Apply
+              </Button>
+            </PopoverContent>
+          </Popover>
+
+          <Button variant="outline" size="sm" className="hover:text-destructive" onClick={handleDelete} disabled={isApplying}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={failures.length > 0} onOpenChange={(open) => !open && setFailures([])}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Some tasks were not updated</DialogTitle>
+            <DialogDescription>
+              {failures.length} task{failures.length === 1 ? " was" : "s were"} skipped. They are still selected so you can retry.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-[50vh] space-y-2 overflow-y-auto">
+            {failures.map(({ task, error }) => (
+              <li key={task.id} className="flex items-start gap-2 text-sm">
+                <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{task.title}</p>
+                  <p className="text-muted-foreground">{error}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, CheckCircle } from "lucide-react";
+import { toast } from "sonner";
+import { User } from "@/lib/types";
+import { getAssignableUsers, importTasks, resolveImportUsers } from "@/lib/dataService.ts";
+import { parseCsv } from "@/lib/csv";
+import {
+  ColumnMapping,
+  getImportEmails,
+  getMappedValue,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportOutcome,
+  ImportRowResult,
+  validateImportRow
+} from "@/lib/taskImport";
+import { cn, formatDate } from "@/lib/utils";
+
+interface ImportTasksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUser: User;
+  onImported?: () => void;
+}
+
+type ImportStep = "upload" | "map" | "preview" | "done";
+
+const IGNORE_COLUMN = "ignore";
+
+export function ImportTasksDialog({ open, onOpenChange, currentUser, onImported }: ImportTasksDialogProps) {
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [outcomes, setOutcomes] = useState<ImportOutcome[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const missingFields = getMissingRequiredFields(mapping);
+  const validRows = results.filter(result => result.task);
+  const failedOutcomes = outcomes.filter(outcome => outcome.error);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping([]);
+    setResults([]);
+    setOutcomes([]);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isWorking) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length < 2) {
+        toast.error("The file needs a header row and at least one task");
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(parsed[0]);
+      setRows(parsed.slice(1));
+      setMapping(guessColumnMapping(parsed[0]));
+      setStep("map");
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast.error("Could not read the file");
+    }
+  };
+
+  const handleMappingChange = (columnIndex: number, value: string) => {
+    setMapping(prev => prev.map((field, index) => {
+      if (index === columnIndex) return value === IGNORE_COLUMN ? null : value as ImportField;
+      // A field can only come from one column
+      return field === value ? null : field;
+    }));
+  };
+
+  // Dry run: resolve assignees and validate every row without creating anything
+  const handlePreview = async () => {
+    setIsWorking(true);
+    try {
+      const [usersByEmail, assignableUsers] = await Promise.all([
+        resolveImportUsers(getImportEmails(rows, mapping)),
+        getAssignableUsers(currentUser.id)
+      ]);
+      const context = {
+        usersByEmail,
+        assignableUserIds: new Set(assignableUsers.map(user => user.id))
+      };
+      // Row 1 of the file is the header
+      setResults(rows.map((row, index) => validateImportRow(row, index + 2, mapping, context)));
+      setStep("preview");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    try {
+      const importOutcomes = await importTasks(validRows);
+      setOutcomes(importOutcomes);
+      setStep("done");
+      if (importOutcomes.some(outcome => outcome.task) && onImported) onImported();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderMappingStep = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {fileName}: {rows.length} row{rows.length === 1 ? "" : "s"}. Choose the task field each column fills.
+      </p>
+      <div className="max-h-[50vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Column</TableHead>
+              <TableHead>First value</TableHead>
+              <TableHead>Task field</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {headers.map((header, index) => (
+              <TableRow key={index}>
+                <TableCell className="font-medium">{header || `Column ${index + 1}`}</TableCell>
+                <TableCell className="max-w-[200px] truncate text-sm text-muted-foreground">{rows[0]?.[index]}</TableCell>
+                <TableCell>
+                  <Select value={mapping[index] || IGNORE_COLUMN} onValueChange={(value) => handleMappingChange(index, value)}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE_COLUMN}>Don't import</SelectItem>
+                      {IMPORT_FIELDS.map(field => (
+                        <SelectItem key={field.value} value={field.value}>
+                          {field.label}{field.required ? "*" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {missingFields.length > 0 && (
+        <p className="text-sm text-destructive">
+          Map a column to: {missingFields.map(field => IMPORT_FIELDS.find(f => f.value === field)?.label).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderPreviewStep = () => (
+    <div className="space-y-4">
+      <p className="text-sm">
+        <span className="font-medium text-green-600">{validRows.length} ready to import</span>
+        {results.length > validRows.length && (
+          <span className="text-destructive">
+            , {results.length - validRows.length} with errors will be skipped
+          </span>
+        )}
+      </p>
+      <div className="max-h-[50vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[60px]">Row</TableHead>
+              <TableHead>Title</TableHead>
+              <TableHead>Assignee</TableHead>
+              <TableHead>Target date</TableHead>
+              <TableHead>Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {results.map((result, index) => (
+              <TableRow key={result.rowNumber} className={cn(!result.task && "bg-destructive/5")}>
+                <TableCell className="text-muted-foreground">{result.rowNumber}</TableCell>
+                <TableCell className="max-w-[200px] truncate">{getMappedValue(rows[index], mapping, "title")}</TableCell>
+                <TableCell className="text-sm">{getMappedValue(rows[index], mapping, "assigneeEmail")}</TableCell>
+                <TableCell className="text-sm">
+                  {result.task ? formatDate(result.task.targetDate) : getMappedValue(rows[index], mapping, "targetDate")}
+                </TableCell>
+                <TableCell>
+                  {result.task ? (
+                    <span className="flex items-center gap-1 text-sm text-green-600">
+                      <CheckCircle className="h-4 w-4" />
+                      Ready
+                    </span>
+                  ) : (
+                    <ul className="space-y-0.5 text-sm text-destructive">
+                      {result.errors.map(error => (
+                        <li key={error} className="flex items-start gap-1">
+                          <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                          {error}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+
+  const renderDoneStep = () => (
+    <div className="space-y-3">
+      <p className="text-sm">
+        Imported {outcomes.length - failedOutcomes.length} of {outcomes.length} task{outcomes.length === 1 ? "" : "s"}.
+      </p>
+      {failedOutcomes.length > 0 && (
+        <ul className="max-h-[40vh] space-y-1 overflow-y-auto text-sm">
+          {failedOutcomes.map(outcome => (
+            <li key={outcome.rowNumber} className="text-destructive">
+              Row {outcome.rowNumber}: {outcome.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Import Tasks</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV file with a header row. You can check every row before anything is created."}
+            {step === "map" && "Step 1 of 2: map columns"}
+            {step === "preview" && "Step 2 of 2: check the dry run"}
+            {step === "done" && "Import finished"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <Input type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+        )}
+        {step === "map" && renderMappingStep()}
+        {step === "preview" && renderPreviewStep()}
+        {step === "done" && renderDoneStep()}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={isWorking}>
+                Choose Another File
+              </Button>
+              <Button onClick={handlePreview} disabled={isWorking || missingFields.length > 0}>
+                {isWorking ? "Checking..." : "Preview Import"}
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")} disabled={isWorking}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={isWorking || validRows.length === 0}>
+                {isWorking ? "Importing..." : `Import ${validRows.length} Task${validRows.length === 1 ? "" : "s"}`}
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,122 @@
+import { useRef, useState } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { User } from "@/lib/types";
+import { findMentionQuery, insertMention, MentionQuery } from "@/lib/mentions";
+import { cn, getInitials } from "@/lib/utils";
+
+interface MentionTextareaProps extends Omit<React.ComponentProps<typeof Textarea>, "value" | "onChange"> {
+  value: string;
+  onChange: (value: string) => void;
+  mentionableUsers: User[];
+  onMention?: (user: User) => void; // Called with each user picked from the suggestions
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Textarea with an @-autocomplete for mentioning users
+export function MentionTextarea({ value, onChange, mentionableUsers, onMention, onKeyDown, className, ...props }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  const suggestions = mention
+    ? mentionableUsers
+        .filter(user => user.name.toLowerCase().includes(mention.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(findMentionQuery(text, caret));
+    setHighlightedIndex(0);
+  };
+
+  const selectUser = (user: User) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+
+    const result = insertMention(value, mention, textarea.selectionStart, user);
+    onChange(result.text);
+    onMention?.(user);
+    setMention(null);
+
+    // Restore the caret after React re-renders the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        setHighlightedIndex(prev => (prev + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault();
+        setHighlightedIndex(prev => (prev - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        selectUser(suggestions[highlightedIndex]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        e.stopPropagation();
+        setMention(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        className={className}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMention(value, e.currentTarget.selectionStart)}
+        onBlur={() => setMention(null)}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-50 mt-1 w-full max-w-[280px] rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((user, index) => (
+            <li
+              key={user.id}
+              // Keep focus in the textarea so onBlur doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectUser(user);
+              }}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={cn(
+                "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1 text-sm",
+                index === highlightedIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <Avatar className="h-5 w-5 text-[10px]">
+                <AvatarImage src={user.avatarUrl} alt={user.name} className="object-cover" />
+                <AvatarFallback className="bg-primary text-primary-foreground">
+                  {getInitials(user.name)}
+                </AvatarFallback>
+              </Avatar>
+              <span className="truncate">{user.name}</span>
+              <span className="ml-auto text-xs text-muted-foreground">{String(user.role).replace('_', ' ')}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
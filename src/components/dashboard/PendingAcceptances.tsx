@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Check, Inbox, X } from "lucide-react";
+import { toast } from "sonner";
+import { Task, User } from "@/lib/types";
+import { getUserById, respondToAssignment } from "@/lib/dataService.ts";
+import { canRespondToAssignment } from "@/lib/acceptance";
+import { formatDate } from "@/lib/utils";
+
+interface PendingAcceptancesProps {
+  tasks: Task[];
+  currentUser: User;
+  onEdit?: (task: Task) => void;
+  onResponded?: () => void; // Called after an answer so the task list can reload
+}
+
+// Tasks newly assigned to the current user that they have not accepted or declined yet
+export function PendingAcceptances({ tasks, currentUser, onEdit, onResponded }: PendingAcceptancesProps) {
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [decliningTask, setDecliningTask] = useState<Task | null>(null);
+  const [declineReason, setDeclineReason] = useState("");
+
+  const pendingTasks = tasks.filter(task => canRespondToAssignment(currentUser, task));
+
+  const respond = async (task: Task, accepted: boolean, reason?: string) => {
+    setRespondingId(task.id);
+    try {
+      const updated = await respondToAssignment(task, accepted, reason);
+      if (updated) {
+        setDecliningTask(null);
+        if (onResponded) onResponded();
+      }
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const handleDecline = () => {
+    if (!decliningTask) return;
+    if (!declineReason.trim()) {
+      toast.error("Give a reason for declining the task");
+      return;
+    }
+    respond(decliningTask, false, declineReason);
+  };
+
+  if (pendingTasks.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Awaiting Your Acceptance ({pendingTasks.length})
+        </CardTitle>
+        <CardDescription>Accept new tasks, or decline them with a reason so they can be reassigned</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {pendingTasks.map(task => (
+          <div key={task.id} className="flex flex-col gap-2 rounded-lg border p-3 md:flex-row md:items-center md:justify-between">
+            <div className="min-w-0">
+              <button type="button" className="truncate font-medium hover:underline" onClick={() => onEdit?.(task)}>
+                {task.title}
+              </button>
+              <p className="text-xs text-muted-foreground">
+                From {getUserById(task.acceptance.assignedBy)?.name || "Unknown User"}, due {formatDate(task.targetDate)}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="hover:text-destructive"
+                onClick={() => {
+                  setDeclineReason("");
+                  setDecliningTask(task);
+                }}
+                disabled={respondingId === task.id}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Decline
+              </Button>
+              <Button size="sm" onClick={() => respond(task, true)} disabled={respondingId === task.id}>
+                <Check className="h-4 w-4 mr-1" />
+                Accept
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!decliningTask} onOpenChange={(open) => !open && !respondingId && setDecliningTask(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Decline Task</DialogTitle>
+            <DialogDescription>
+              {getUserById(decliningTask?.acceptance?.assignedBy || "")?.name || "The assigner"} will be told why you can't take "{decliningTask?.title}".
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="decline-reason">Reason*</Label>
+            <Textarea
+              id="decline-reason"
+              value={declineReason}
+              onChange={(e) => setDeclineReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecliningTask(null)} disabled={!!respondingId}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDecline} disabled={!!respondingId}>
+              Decline Task
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
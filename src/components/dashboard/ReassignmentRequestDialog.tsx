@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { ReassignmentRequest, Task, User } from "@/lib/types";
+import { getAssignableUsers, getCurrentUser, getUserByIdAsync, requestReassignment } from "@/lib/dataService.ts";
+import { getReassignmentApproverId, validateReassignmentRequest } from "@/lib/reassignment";
+import { getAssigneeId } from "@/lib/taskFilters";
+
+interface ReassignmentRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  task: Task;
+  onRequested?: (request: ReassignmentRequest) => void;
+}
+
+export function ReassignmentRequestDialog({ open, onOpenChange, task, onRequested }: ReassignmentRequestDialogProps) {
+  const [users, setUsers] = useState<User[]>([]);
+  const [approver, setApprover] = useState<User | undefined>();
+  const [suggestedAssigneeId, setSuggestedAssigneeId] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setSuggestedAssigneeId("");
+    setReason("");
+    setUsers([]);
+    setApprover(undefined);
+
+    let cancelled = false;
+    const loadUsers = async () => {
+      // Only people the approver could assign the task to are offered, so the approver
+      // is fetched rather than read from the user cache, which may not hold them yet
+      const currentUser = getCurrentUser();
+      const approverId = getReassignmentApproverId(task, currentUser);
+      const taskApprover = approverId ? await getUserByIdAsync(approverId) : undefined;
+      if (cancelled) return;
+      if (approverId && !taskApprover) {
+        console.error('Reassignment approver not found:', approverId);
+        toast.error("Couldn't load who approves this reassignment. Please try again.");
+        return;
+      }
+      setApprover(taskApprover);
+
+      const assignableUsers = await getAssignableUsers(currentUser.id, taskApprover);
+      if (cancelled) return;
+      const assigneeId = getAssigneeId(task);
+      setUsers(Array.isArray(assignableUsers) ? assignableUsers.filter(user => user.id !== assigneeId) : []);
+    };
+    loadUsers();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, task]);
+
+  const handleSubmit = async () => {
+    const error = validateReassignmentRequest(task, suggestedAssigneeId, reason);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const request = await requestReassignment(task, suggestedAssigneeId, reason);
+      if (request) {
+        if (onRequested) onRequested(request);
+        onOpenChange(false);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isSubmitting && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Request Reassignment</DialogTitle>
+          <DialogDescription>
+            {approver
+              ? `${approver.name} will be asked to approve moving "${task.title}" to someone else.`
+              : `Ask for "${task.title}" to be moved to someone else.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="suggested-assignee">Suggested assignee*</Label>
+            <Select value={suggestedAssigneeId} onValueChange={setSuggestedAssigneeId}>
+              <SelectTrigger id="suggested-assignee">
+                <SelectValue placeholder="Select a person" />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map(user => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name} ({user.role})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reassignment-reason">Reason*</Label>
+            <Textarea
+              id="reassignment-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why should this task go to someone else?"
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "Sending..." : "Send Request"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowRight, ArrowRightLeft, Check, X } from "lucide-react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { ReassignmentRequest, User, UserRole } from "@/lib/types";
+import { decideReassignmentRequest, getReassignmentRequests, getUserById } from "@/lib/dataService.ts";
+import { canDecideReassignment } from "@/lib/reassignment";
+
+interface ReassignmentRequestsPanelProps {
+  currentUser: User;
+  onDecided?: () => void; // Called after a decision so the task list can reload
+}
+
+const resolveUserName = (id: string) => getUserById(id)?.name || 'Unknown User';
+
+// Pending reassignment requests the current user can approve or reject
+export function ReassignmentRequestsPanel({ currentUser, onDecided }: ReassignmentRequestsPanelProps) {
+  const [requests, setRequests] = useState<ReassignmentRequest[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const isSuperAdmin = currentUser.role === UserRole.SUPER_ADMIN || currentUser.role === 'super_admin';
+    getReassignmentRequests({ status: 'pending', approverId: isSuperAdmin ? undefined : currentUser.id })
+      .then(loaded => setRequests(loaded.filter(request => canDecideReassignment(currentUser, request))));
+  }, [currentUser]);
+
+  const handleDecide = async (request: ReassignmentRequest, approved: boolean) => {
+    if (!approved && !confirm(`Reject ${resolveUserName(request.requestedBy)}'s request?`)) return;
+
+    setDecidingId(request.id);
+    try {
+      const decided = await decideReassignmentRequest(request, approved, notes[request.id] || '');
+      if (decided) {
+        setRequests(prev => prev.filter(r => r.id !== request.id));
+        if (onDecided) onDecided();
+      }
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" />
+          Reassignment Requests ({requests.length})
+        </CardTitle>
+        <CardDescription>Approving a request moves the task to the suggested assignee</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map(request => (
+          <div key={request.id} className="space-y-2 rounded-lg border p-3">
+            <div className="flex flex-col gap-1 md:flex-row md:items-center md:justify-between">
+              <p className="font-medium">{request.taskTitle}</p>
+              <span className="text-xs text-muted-foreground">
+                {resolveUserName(request.requestedBy)}, {formatDistanceToNow(parseISO(request.createdAt), { addSuffix: true })}
+              </span>
+            </div>
+            <p className="flex items-center gap-1 text-sm">
+              {resolveUserName(request.currentAssigneeId)}
+              <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+              {resolveUserName(request.suggestedAssigneeId)}
+            </p>
+            <p className="text-sm italic text-muted-foreground">"{request.reason}"</p>
+            <div className="flex flex-col gap-2 md:flex-row">
+              <Input
+                value={notes[request.id] || ''}
+                onChange={(e) => setNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                placeholder="Note for the requester (optional)"
+                disabled={decidingId === request.id}
+              />
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  className="hover:text-destructive"
+                  onClick={() => handleDecide(request, false)}
+                  disabled={decidingId === request.id}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+                <Button onClick={() => handleDecide(request, true)} disabled={decidingId === request.id}>
+                  <Check className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Bookmark, ChevronDown, Link2, Pencil, Pin, PinOff, Plus, Trash2 } from "lucide-react";
+import { SavedTaskView, TaskFilters, TaskSort } from "@/lib/types";
+import { deleteTaskView, getSavedTaskViews, saveTaskView } from "@/lib/dataService.ts";
+import { buildTaskViewParams } from "@/lib/taskFilters";
+import { toast } from "sonner";
+
+interface SavedViewsBarProps {
+  filters: TaskFilters;
+  sort: TaskSort;
+  onApply: (view: SavedTaskView) => void;
+}
+
+interface NameDialogState {
+  view?: SavedTaskView; // Renaming this view; saving the current filters when absent
+  name: string;
+}
+
+// A view is active when it reproduces exactly the filters and sort in use
+const isActiveView = (view: SavedTaskView, filters: TaskFilters, sort: TaskSort) =>
+  buildTaskViewParams(view.filters, view.sort || sort).toString() === buildTaskViewParams(filters, sort).toString();
+
+export function SavedViewsBar({ filters, sort, onApply }: SavedViewsBarProps) {
+  const [views, setViews] = useState<SavedTaskView[]>([]);
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getSavedTaskViews().then(setViews);
+  }, []);
+
+  const pinnedViews = views.filter(view => view.pinned);
+
+  const replaceView = (saved: SavedTaskView) => {
+    setViews(prev => prev.some(v => v.id === saved.id) ? prev.map(v => v.id === saved.id ? saved : v) : [...prev, saved]);
+  };
+
+  const handleSaveName = async () => {
+    if (!nameDialog?.name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const saved = nameDialog.view
+        ? await saveTaskView({ ...nameDialog.view, name: nameDialog.name.trim() })
+        : await saveTaskView({ name: nameDialog.name.trim(), filters, sort, pinned: false });
+      if (saved) {
+        replaceView(saved);
+        toast.success(nameDialog.view ? "View renamed" : `View "${saved.name}" saved`);
+        setNameDialog(null);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTogglePin = async (view: SavedTaskView) => {
+    const saved = await saveTaskView({ ...view, pinned: !view.pinned });
+    if (saved) replaceView(saved);
+  };
+
+  const handleDelete = async (view: SavedTaskView) => {
+    if (!confirm(`Delete the "${view.name}" view?`)) return;
+
+    if (await deleteTaskView(view.id)) {
+      setViews(prev => prev.filter(v => v.id !== view.id));
+    }
+  };
+
+  // Views are shared as links; anyone who can see the tasks gets the same filters
+  const handleShare = async (view: SavedTaskView) => {
+    const params = buildTaskViewParams(view.filters, view.sort || sort);
+    const url = `${window.location.origin}/tasks${params.toString() ? `?${params}` : ""}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link to view copied");
+    } catch (error) {
+      console.error("Error copying view link:", error);
+      toast.error("Could not copy the link");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {pinnedViews.map(view => (
+        <Button
+          key={view.id}
+          variant={isActiveView(view, filters, sort) ? "secondary" : "outline"}
+          size="sm"
+          onClick={() => onApply(view)}
+        >
+          <Pin className="h-3 w-3 mr-1" />
+          {view.name}
+        </Button>
+      ))}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm">
+            <Bookmark className="h-4 w-4 mr-1" />
+            Views
+            <ChevronDown className="h-3 w-3 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuItem onClick={() => setNameDialog({ name: "" })}>
+            <Plus className="h-4 w-4 mr-2" />
+            Save current view
+          </DropdownMenuItem>
+          {views.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>My views</DropdownMenuLabel>
+              {views.map(view => (
+                <DropdownMenuSub key={view.id}>
+                  <DropdownMenuSubTrigger>
+                    {view.pinned && <Pin className="h-3 w-3 mr-2" />}
+                    <span className="truncate">{view.name}</span>
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuItem onClick={() => onApply(view)}>
+                      <Bookmark className="h-4 w-4 mr-2" />
+                      Apply
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleTogglePin(view)}>
+                      {view.pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+                      {view.pinned ? "Unpin" : "Pin"}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setNameDialog({ view, name: view.name })}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleShare(view)}>
+                      <Link2 className="h-4 w-4 mr-2" />
+                      Copy link
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(view)}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!nameDialog} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.view ? "Rename view" : "Save current view"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              value={nameDialog?.name || ""}
+              onChange={(e) => setNameDialog(prev => prev && { ...prev, name: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleSaveName();
+                }
+              }}
+              placeholder="e.g. My overdue high priority"
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveName} disabled={isSaving || !nameDialog?.name.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 import { cn } from "@/lib/utils";
 import { Task } from "@/lib/types";
 import { getTaskStatusColor, formatStatus } from "@/lib/utils";
+import { getWorkflowState } from "@/lib/workflow";
 
 interface StatusBadgeProps {
   task: Task;
@@ -10,6 +11,7 @@ interface StatusBadgeProps {
 
 export function StatusBadge({ task, className }: StatusBadgeProps) {
   const statusColor = getTaskStatusColor(task);
+  const workflowState = getWorkflowState(task.status);
   
   const colorClasses = {
     completed: "bg-status-completed/10 text-status-completed border-status-completed/30",
@@ -27,15 +29,8 @@ export function StatusBadge({ task, className }: StatusBadgeProps) {
       )}
     >
       <span 
-        className={cn(
-          "mr-1 h-1.5 w-1.5 rounded-full",
-          {
-            "bg-status-completed": statusColor === "completed",
-            "bg-status-pending": statusColor === "pending",
-            "bg-status-overdue": statusColor === "overdue",
-            "bg-muted-foreground": statusColor === "default",
-          }
-        )} 
+        className="mr-1 h-1.5 w-1.5 rounded-full"
+        style={{ backgroundColor: workflowState.color }}
       />
       {formatStatus(task.status)}
     </div>
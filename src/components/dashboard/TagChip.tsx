@@ -0,0 +1,29 @@
+import { X } from "lucide-react";
+import { getTagColor } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+interface TagChipProps {
+  name: string;
+  color?: string; // Defaults to the catalogue colour for the tag
+  onRemove?: () => void;
+  className?: string;
+}
+
+export function TagChip({ name, color, onRemove, className }: TagChipProps) {
+  const chipColor = color || getTagColor(name);
+
+  return (
+    <span
+      className={cn("inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium", className)}
+      style={{ backgroundColor: `${chipColor}1a`, borderColor: `${chipColor}4d`, color: chipColor }}
+    >
+      {name}
+      {onRemove && (
+        <button type="button" className="ml-1 rounded-full hover:opacity-70" onClick={onRemove}>
+          <X className="h-3 w-3" />
+          <span className="sr-only">Remove {name}</span>
+        </button>
+      )}
+    </span>
+  );
+}
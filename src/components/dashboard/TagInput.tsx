@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { canonicalTagName, getTagSuggestions } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import { TagChip } from "./TagChip";
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Tag chips plus an input that suggests tags from the catalogue
+export function TagInput({ id, value, onChange, disabled, className }: TagInputProps) {
+  const [query, setQuery] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  const suggestions = isFocused ? getTagSuggestions(query, value).slice(0, MAX_SUGGESTIONS) : [];
+
+  const addTag = (name: string) => {
+    const tag = canonicalTagName(name);
+    if (tag && !value.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      onChange([...value, tag]);
+    }
+    setQuery("");
+    setHighlightedIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      if (suggestions.length > 0 && query.trim()) {
+        addTag(suggestions[highlightedIndex].name);
+      } else if (query.trim()) {
+        addTag(query);
+      }
+    } else if (e.key === "Backspace" && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className={cn("relative space-y-2", className)}>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(tag => (
+            <TagChip
+              key={tag}
+              name={tag}
+              onRemove={disabled ? undefined : () => onChange(value.filter(t => t !== tag))}
+            />
+          ))}
+        </div>
+      )}
+      {!disabled && (
+        <Input
+          id={id}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlightedIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (query.trim()) addTag(query);
+          }}
+          placeholder="Add a tag"
+        />
+      )}
+      {suggestions.length > 0 && (
+        <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.id}
+              // Keep focus in the input so onBlur doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag.name);
+              }}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={cn(
+                "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1 text-sm",
+                index === highlightedIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+              <span className="truncate">{tag.name}</span>
+              {tag.description && (
+                <span className="ml-auto truncate text-xs text-muted-foreground">{tag.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
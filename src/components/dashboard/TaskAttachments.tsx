@@ -0,0 +1,283 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, Eye, FileText, Paperclip, Trash2, Upload, X } from "lucide-react";
+import { Task, TaskAttachment } from "@/lib/types";
+import { deleteTaskAttachment, getCurrentUser, getTaskAttachmentBlob, getUserById } from "@/lib/dataService.ts";
+import {
+  ATTACHMENT_ACCEPT,
+  canPreviewAttachment,
+  formatFileSize,
+  isImageAttachment,
+  isPdfAttachment,
+  MAX_ATTACHMENT_SIZE,
+  validateAttachment
+} from "@/lib/attachments";
+import { canDeleteAttachment, canDownloadAttachment } from "@/lib/taskPermissions";
+import { cn, formatDate } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface TaskAttachmentsProps {
+  task?: Task;
+  pendingFiles: File[]; // Uploaded when the task is saved
+  onPendingFilesChange: (files: File[]) => void;
+  canUpload: boolean;
+}
+
+interface PreviewState {
+  name: string;
+  mimeType: string;
+  url: string;
+}
+
+export function TaskAttachments({ task, pendingFiles, onPendingFilesChange, canUpload }: TaskAttachmentsProps) {
+  const [attachments, setAttachments] = useState<TaskAttachment[]>(task?.attachments || []);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<PreviewState | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Object URLs by attachment ID, so only new images are fetched and only removed ones released
+  const thumbnailUrlsRef = useRef<Record<string, string>>({});
+
+  const currentUser = getCurrentUser();
+  const canDownload = !!task && canDownloadAttachment(currentUser, task);
+
+  useEffect(() => {
+    setAttachments(task?.attachments || []);
+  }, [task]);
+
+  // Release every thumbnail when the dialog moves to another task or closes
+  useEffect(() => {
+    return () => {
+      Object.values(thumbnailUrlsRef.current).forEach(url => URL.revokeObjectURL(url));
+      thumbnailUrlsRef.current = {};
+      setThumbnails({});
+    };
+  }, [task?.id]);
+
+  // Load thumbnails for image attachments that don't have one yet
+  useEffect(() => {
+    if (!task || !canDownload) return;
+
+    const cache = thumbnailUrlsRef.current;
+    const currentIds = new Set(attachments.map(attachment => attachment.id));
+    Object.keys(cache).forEach(id => {
+      if (!currentIds.has(id)) {
+        URL.revokeObjectURL(cache[id]);
+        delete cache[id];
+      }
+    });
+    setThumbnails({ ...cache });
+
+    let cancelled = false;
+    const loadThumbnails = async () => {
+      for (const attachment of attachments.filter(isImageAttachment)) {
+        if (cache[attachment.id]) continue;
+        const blob = await getTaskAttachmentBlob(task.id, attachment.id);
+        if (cancelled || !blob) continue;
+        cache[attachment.id] = URL.createObjectURL(blob);
+        setThumbnails({ ...cache });
+      }
+    };
+
+    loadThumbnails();
+    return () => {
+      cancelled = true;
+    };
+  }, [task, attachments, canDownload]);
+
+  const addFiles = (files: FileList | File[]) => {
+    const accepted: File[] = [];
+    Array.from(files).forEach(file => {
+      const validation = validateAttachment(file);
+      if (validation.isValid) {
+        accepted.push(file);
+      } else {
+        toast.error(validation.error);
+      }
+    });
+    if (accepted.length > 0) {
+      onPendingFilesChange([...pendingFiles, ...accepted]);
+    }
+  };
+
+  const openPreview = async (attachment: TaskAttachment) => {
+    if (!task || !canDownload) return;
+
+    let url = thumbnails[attachment.id];
+    if (!url) {
+      const blob = await getTaskAttachmentBlob(task.id, attachment.id);
+      if (!blob) return;
+      url = URL.createObjectURL(blob);
+    }
+    setPreview({ name: attachment.name, mimeType: attachment.mimeType, url });
+  };
+
+  const handleDownload = async (attachment: TaskAttachment) => {
+    if (!task || !canDownload) {
+      toast.error("You don't have permission to download this attachment");
+      return;
+    }
+    const blob = await getTaskAttachmentBlob(task.id, attachment.id);
+    if (!blob) return;
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = attachment.name;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = async (attachment: TaskAttachment) => {
+    if (!task || !confirm(`Delete "${attachment.name}"?`)) return;
+
+    const deleted = await deleteTaskAttachment(task.id, attachment.id);
+    if (deleted) {
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    }
+  };
+
+  if (!canUpload && attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <Paperclip className="h-4 w-4" />
+        Attachments
+      </Label>
+
+      {(attachments.length > 0 || pendingFiles.length > 0) && (
+        <ul className="space-y-1">
+          {attachments.map(attachment => {
+            const uploader = getUserById(attachment.uploadedBy);
+            return (
+              <li key={attachment.id} className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm">
+                {thumbnails[attachment.id] ? (
+                  <img src={thumbnails[attachment.id]} alt={attachment.name} className="h-8 w-8 rounded object-cover" />
+                ) : (
+                  <FileText className="h-8 w-8 p-1.5 text-muted-foreground" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="truncate">{attachment.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {formatFileSize(attachment.size)} · {uploader?.name || "Unknown User"} · {formatDate(attachment.uploadedAt)}
+                  </p>
+                </div>
+                {canDownload && canPreviewAttachment(attachment) && (
+                  <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => openPreview(attachment)}>
+                    <Eye className="h-3 w-3" />
+                    <span className="sr-only">Preview</span>
+                  </Button>
+                )}
+                {canDownload && (
+                  <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleDownload(attachment)}>
+                    <Download className="h-3 w-3" />
+                    <span className="sr-only">Download</span>
+                  </Button>
+                )}
+                {task && canDeleteAttachment(currentUser, task, attachment) && (
+                  <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0 hover:text-destructive" onClick={() => handleDelete(attachment)}>
+                    <Trash2 className="h-3 w-3" />
+                    <span className="sr-only">Delete</span>
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+          {pendingFiles.map((file, index) => (
+            <li key={`pending-${index}`} className="flex items-center gap-2 rounded-md border border-dashed px-2 py-1 text-sm">
+              <FileText className="h-8 w-8 p-1.5 text-muted-foreground" />
+              <div className="flex-1 min-w-0">
+                <p className="truncate">{file.name}</p>
+                <p className="text-xs text-muted-foreground">{formatFileSize(file.size)} · Uploads on save</p>
+              </div>
+              {canPreviewAttachment({ mimeType: file.type }) && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => setPreview({ name: file.name, mimeType: file.type, url: URL.createObjectURL(file) })}
+                >
+                  <Eye className="h-3 w-3" />
+                  <span className="sr-only">Preview</span>
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => onPendingFilesChange(pendingFiles.filter((_, i) => i !== index))}
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove</span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canUpload && (
+        <div
+          className={cn(
+            "flex cursor-pointer flex-col items-center justify-center gap-1 rounded-md border-2 border-dashed p-4 text-center text-sm text-muted-foreground transition-colors",
+            isDragging && "border-primary bg-primary/5"
+          )}
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            addFiles(e.dataTransfer.files);
+          }}
+        >
+          <Upload className="h-5 w-5" />
+          <span>Drag files here or click to browse</span>
+          <span className="text-xs">Images, PDFs, documents and spreadsheets up to {formatFileSize(MAX_ATTACHMENT_SIZE)}</span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files) addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      )}
+
+      <Dialog
+        open={!!preview}
+        onOpenChange={(open) => {
+          if (open || !preview) return;
+          // Thumbnail URLs are reused; anything created just for the preview is released
+          if (!Object.values(thumbnails).includes(preview.url)) URL.revokeObjectURL(preview.url);
+          setPreview(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-[800px]">
+          <DialogHeader>
+            <DialogTitle className="truncate">{preview?.name}</DialogTitle>
+          </DialogHeader>
+          {preview && isImageAttachment(preview) && (
+            <img src={preview.url} alt={preview.name} className="max-h-[70vh] w-full object-contain" />
+          )}
+          {preview && isPdfAttachment(preview) && (
+            <iframe src={preview.url} title={preview.name} className="h-[70vh] w-full rounded border" />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
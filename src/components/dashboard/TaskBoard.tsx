@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { TaskCard } from "./TaskCard";
+import { Task, TaskStatus, User } from "@/lib/types";
+import { updateTaskStatus } from "@/lib/dataService.ts";
+import { calculatePermissions } from "@/lib/taskPermissions";
+import { confirmCompleteWithOpenSubtasks } from "@/lib/taskHierarchy";
+import { getOpenBlockers } from "@/lib/taskDependencies";
+import { canTransition, getStatusCategory, getWorkflowStates } from "@/lib/workflow";
+import { BoardSwimlane, buildSwimlanes } from "@/lib/taskBoard";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface TaskBoardProps {
+  tasks: Task[];
+  allTasks: Task[]; // Used to resolve blockers
+  currentUser: User;
+  swimlane: BoardSwimlane;
+  onEdit?: (task: Task) => void;
+  refetch?: () => void;
+  selectedTaskIds?: Set<string>;
+  onSelectTask?: (task: Task, shiftKey: boolean) => void;
+}
+
+export function TaskBoard({ tasks, allTasks, currentUser, swimlane, onEdit, refetch, selectedTaskIds, onSelectTask }: TaskBoardProps) {
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [updatingTaskId, setUpdatingTaskId] = useState<string | null>(null);
+
+  // One column per configured workflow state
+  const columns = getWorkflowStates();
+
+  const handleDrop = async (newStatus: string) => {
+    const task = tasks.find(t => t.id === draggedTaskId);
+    setDraggedTaskId(null);
+    setDropTarget(null);
+
+    if (!task || task.status === newStatus) return;
+
+    // Apply the same rules as the edit form
+    if (!calculatePermissions(currentUser, task).canEditStatus) {
+      toast.error("Only the assignee or their supervisor can change this task's status");
+      return;
+    }
+
+    if (!canTransition(task.status, newStatus, String(currentUser.role))) {
+      const targetName = columns.find(column => column.id === newStatus)?.name || newStatus;
+      toast.error(`Your role cannot move this task to "${targetName}"`);
+      return;
+    }
+
+    if (getStatusCategory(newStatus) === TaskStatus.COMPLETED && !confirmCompleteWithOpenSubtasks(task, confirm)) {
+      return;
+    }
+
+    setUpdatingTaskId(task.id);
+    try {
+      const updatedTask = await updateTaskStatus(task.id, newStatus);
+      if (updatedTask && refetch) refetch();
+    } finally {
+      setUpdatingTaskId(null);
+    }
+  };
+
+  const swimlanes = buildSwimlanes(tasks, swimlane);
+
+  return (
+    <div className="space-y-6">
+      {swimlanes.map(lane => (
+        <div key={lane.key} className="space-y-2">
+          {lane.label && (
+            <h3 className="text-sm font-semibold text-muted-foreground">
+              {lane.label} <span className="font-normal">({lane.tasks.length})</span>
+            </h3>
+          )}
+          <div className="grid gap-4 md:grid-flow-col md:auto-cols-fr">
+            {columns.map(column => {
+              const status = column.id;
+              const columnTasks = lane.tasks.filter(task => task.status === status);
+              const targetKey = `${lane.key}-${status}`;
+              return (
+                <div
+                  key={status}
+                  className={cn(
+                    "rounded-lg border bg-muted/30 p-3 min-h-[200px] transition-colors",
+                    dropTarget === targetKey && "border-primary bg-primary/5"
+                  )}
+                  onDragOver={(e) => {
+                    if (!draggedTaskId) return;
+                    e.preventDefault();
+                    setDropTarget(targetKey);
+                  }}
+                  onDragLeave={() => setDropTarget(prev => prev === targetKey ? null : prev)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(status);
+                  }}
+                >
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="flex items-center gap-2 text-sm font-medium">
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: column.color }} />
+                      {column.name}
+                    </h4>
+                    <span className="text-xs text-muted-foreground">{columnTasks.length}</span>
+                  </div>
+                  <div className="space-y-3">
+                    {columnTasks.map(task => {
+                      const canDrag = calculatePermissions(currentUser, task).canEditStatus;
+                      return (
+                        <div
+                          key={task.id}
+                          draggable={canDrag && updatingTaskId !== task.id}
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = "move";
+                            setDraggedTaskId(task.id);
+                          }}
+                          onDragEnd={() => {
+                            setDraggedTaskId(null);
+                            setDropTarget(null);
+                          }}
+                          className={cn(
+                            canDrag ? "cursor-grab active:cursor-grabbing" : "cursor-default",
+                            (draggedTaskId === task.id || updatingTaskId === task.id) && "opacity-50"
+                          )}
+                        >
+                          <TaskCard
+                            task={task}
+                            onEdit={onEdit}
+                            refetch={refetch}
+                            openBlockers={getOpenBlockers(task, allTasks)}
+                            selected={selectedTaskIds?.has(task.id)}
+                            onSelect={onSelectTask}
+                          />
+                        </div>
+                      );
+                    })}
+                    {columnTasks.length === 0 && (
+                      <p className="py-6 text-center text-xs text-muted-foreground">
+                        Drop tasks here
+                      </p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
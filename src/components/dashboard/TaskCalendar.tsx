@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { format, isSameMonth, isToday } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarIcon, ChevronLeft, ChevronRight } from "lucide-react";
+import { toast } from "sonner";
+import { TaskCard } from "./TaskCard";
+import { Task, TaskPriority, TaskStatus, User } from "@/lib/types";
+import { updateTask } from "@/lib/dataService.ts";
+import { calculatePermissions } from "@/lib/taskPermissions";
+import { getOpenBlockers } from "@/lib/taskDependencies";
+import {
+  CALENDAR_VIEWS,
+  CalendarColorBy,
+  CalendarView,
+  getCalendarDays,
+  getCalendarTitle,
+  getDayKey,
+  getTaskColor,
+  groupTasksByDay,
+  moveTargetDateToDay,
+  PRIORITY_COLORS,
+  shiftCalendarDate
+} from "@/lib/taskCalendar";
+import { getStatusCategory, getWorkflowStates } from "@/lib/workflow";
+import { cn, formatPriority } from "@/lib/utils";
+
+interface TaskCalendarProps {
+  tasks: Task[];
+  allTasks: Task[]; // Used to resolve blockers
+  currentUser: User;
+  onEdit?: (task: Task) => void;
+  refetch?: () => void;
+}
+
+const CALENDAR_VIEW_STORAGE_KEY = 'tasksCalendarView';
+const CALENDAR_COLOR_STORAGE_KEY = 'tasksCalendarColorBy';
+
+// Tasks listed in a month cell before the rest collapse into "+N more"
+const MAX_MONTH_CELL_TASKS = 3;
+
+export function TaskCalendar({ tasks, allTasks, currentUser, onEdit, refetch }: TaskCalendarProps) {
+  const [view, setView] = useState<CalendarView>(
+    () => (localStorage.getItem(CALENDAR_VIEW_STORAGE_KEY) as CalendarView) || 'month'
+  );
+  const [colorBy, setColorBy] = useState<CalendarColorBy>(
+    () => (localStorage.getItem(CALENDAR_COLOR_STORAGE_KEY) as CalendarColorBy) || 'status'
+  );
+  const [date, setDate] = useState(new Date());
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [updatingTaskId, setUpdatingTaskId] = useState<string | null>(null);
+
+  const days = getCalendarDays(view, date);
+  const tasksByDay = groupTasksByDay(tasks);
+
+  const handleViewChange = (nextView: CalendarView) => {
+    setView(nextView);
+    localStorage.setItem(CALENDAR_VIEW_STORAGE_KEY, nextView);
+  };
+
+  const handleColorByChange = (value: string) => {
+    setColorBy(value as CalendarColorBy);
+    localStorage.setItem(CALENDAR_COLOR_STORAGE_KEY, value);
+  };
+
+  const openDay = (day: Date) => {
+    setDate(day);
+    handleViewChange('day');
+  };
+
+  const handleDrop = async (day: Date) => {
+    const task = tasks.find(t => t.id === draggedTaskId);
+    setDraggedTaskId(null);
+    setDropTarget(null);
+
+    if (!task || getDayKey(new Date(task.targetDate)) === getDayKey(day)) return;
+
+    // Apply the same rules as the edit form
+    if (!calculatePermissions(currentUser, task).canEditTargetDate) {
+      toast.error("Only the task's creator can change its target date");
+      return;
+    }
+
+    setUpdatingTaskId(task.id);
+    try {
+      await updateTask({ ...task, targetDate: moveTargetDateToDay(task.targetDate, day), subtasks: undefined }, task);
+      if (refetch) refetch();
+    } catch (error) {
+      // updateTask has already reported the failure
+      console.error('Error rescheduling task:', error);
+    } finally {
+      setUpdatingTaskId(null);
+    }
+  };
+
+  const renderTaskChip = (task: Task) => {
+    const canDrag = calculatePermissions(currentUser, task).canEditTargetDate;
+    const color = getTaskColor(task, colorBy);
+    const isCompleted = getStatusCategory(task.status) === TaskStatus.COMPLETED;
+
+    return (
+      <button
+        key={task.id}
+        type="button"
+        draggable={canDrag && updatingTaskId !== task.id}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = "move";
+          setDraggedTaskId(task.id);
+        }}
+        onDragEnd={() => {
+          setDraggedTaskId(null);
+          setDropTarget(null);
+        }}
+        onClick={() => onEdit?.(task)}
+        title={task.title}
+        className={cn(
+          "flex w-full items-center gap-1 truncate rounded border-l-4 px-1.5 py-0.5 text-left text-xs hover:opacity-80",
+          canDrag ? "cursor-grab active:cursor-grabbing" : "cursor-pointer",
+          isCompleted && "line-through opacity-60",
+          (draggedTaskId === task.id || updatingTaskId === task.id) && "opacity-50"
+        )}
+        style={{ borderLeftColor: color, backgroundColor: `${color}1a` }}
+      >
+        <span className="truncate">{task.title}</span>
+      </button>
+    );
+  };
+
+  const renderDayCell = (day: Date) => {
+    const key = getDayKey(day);
+    const dayTasks = tasksByDay.get(key) || [];
+    const visibleTasks = view === 'month' ? dayTasks.slice(0, MAX_MONTH_CELL_TASKS) : dayTasks;
+    const hiddenCount = dayTasks.length - visibleTasks.length;
+
+    return (
+      <div
+        key={key}
+        className={cn(
+          "space-y-1 border-b border-r p-1.5 transition-colors",
+          view === 'month' ? "min-h-[110px]" : "min-h-[400px]",
+          view === 'month' && !isSameMonth(day, date) && "bg-muted/40 text-muted-foreground",
+          dropTarget === key && "bg-primary/5 ring-1 ring-inset ring-primary"
+        )}
+        onDragOver={(e) => {
+          if (!draggedTaskId) return;
+          e.preventDefault();
+          setDropTarget(key);
+        }}
+        onDragLeave={() => setDropTarget(prev => prev === key ? null : prev)}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop(day);
+        }}
+      >
+        <button
+          type="button"
+          onClick={() => openDay(day)}
+          className={cn(
+            "flex h-6 min-w-6 items-center justify-center rounded-full px-1 text-xs font-medium hover:bg-muted",
+            isToday(day) && "bg-primary text-primary-foreground hover:bg-primary/90"
+          )}
+        >
+          {view === 'week' ? format(day, 'EEE d') : format(day, 'd')}
+        </button>
+        {visibleTasks.map(renderTaskChip)}
+        {hiddenCount > 0 && (
+          <button type="button" className="px-1.5 text-xs text-muted-foreground hover:underline" onClick={() => openDay(day)}>
+            +{hiddenCount} more
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const legend = colorBy === 'status'
+    ? getWorkflowStates().map(state => ({ key: state.id, label: state.name, color: state.color }))
+    : Object.values(TaskPriority).map(priority => ({ key: priority, label: formatPriority(priority), color: PRIORITY_COLORS[priority] }));
+
+  const dayTasks = view === 'day' ? tasksByDay.get(getDayKey(date)) || [] : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setDate(shiftCalendarDate(view, date, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous</span>
+          </Button>
+          <Button variant="outline" onClick={() => setDate(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setDate(shiftCalendarDate(view, date, 1))}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next</span>
+          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" className="text-lg font-semibold">
+                {getCalendarTitle(view, date)}
+                <CalendarIcon className="ml-2 h-4 w-4 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={date}
+                onSelect={(day) => day && setDate(day)}
+                defaultMonth={date}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={colorBy} onValueChange={handleColorByChange}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="status">Colour by status</SelectItem>
+              <SelectItem value="priority">Colour by priority</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex rounded-md border">
+            {CALENDAR_VIEWS.map((option, index) => (
+              <Button
+                key={option.value}
+                variant={view === option.value ? 'secondary' : 'ghost'}
+                size="sm"
+                className={cn(
+                  index > 0 && "rounded-l-none",
+                  index < CALENDAR_VIEWS.length - 1 && "rounded-r-none"
+                )}
+                onClick={() => handleViewChange(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {legend.map(item => (
+          <span key={item.key} className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: item.color }} />
+            {item.label}
+          </span>
+        ))}
+      </div>
+
+      {view === 'day' ? (
+        dayTasks.length > 0 ? (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {dayTasks.map(task => (
+              <TaskCard
+                key={task.id}
+                task={task}
+                onEdit={onEdit}
+                refetch={refetch}
+                openBlockers={getOpenBlockers(task, allTasks)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="py-12 text-center text-sm text-muted-foreground">Nothing is due on this day</p>
+        )
+      ) : (
+        <div className="overflow-hidden rounded-lg border-l border-t">
+          <div className="grid grid-cols-7">
+            {view === 'month' && days.slice(0, 7).map(day => (
+              <div key={day.getDay()} className="border-b border-r bg-muted/30 px-2 py-1 text-xs font-medium text-muted-foreground">
+                {format(day, 'EEE')}
+              </div>
+            ))}
+            {days.map(renderDayCell)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,23 +2,43 @@ import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { StatusBadge } from "./StatusBadge";
-import { Task, TaskStatus, User } from "@/lib/types";
+import { TagChip } from "./TagChip";
+import { Task, TaskStatus, TimeEntry, User } from "@/lib/types";
 import { formatDate, getInitials, getRelativeTime } from "@/lib/utils";
-import { CalendarIcon, CheckCircle, Clock, Edit, User as UserIcon } from "lucide-react";
+import { AlertTriangle, Ban, CalendarIcon, CheckCircle, ChevronDown, ChevronRight, CircleX, Clock, Edit, Hourglass, ListTree, Play, Repeat, Square, Timer, User as UserIcon } from "lucide-react";
 import { useState, useEffect } from "react";
-import { getUserById, getUserByIdAsync, updateTaskStatus } from "@/lib/dataService.ts";
+import { getCurrentUser, getUserById, getUserByIdAsync, startTaskTimer, stopTaskTimer, updateTaskStatus } from "@/lib/dataService.ts";
+import { confirmCompleteWithOpenSubtasks, getSubtaskProgress } from "@/lib/taskHierarchy";
+import { describeRecurrence } from "@/lib/recurrence";
+import { getCurrentEscalations } from "@/lib/escalation";
+import { isAssignmentDeclined, isAwaitingAcceptance } from "@/lib/acceptance";
+import { calculatePermissions } from "@/lib/taskPermissions";
+import { formatEffort, getRemainingEffort } from "@/lib/estimates";
+import { formatDuration, formatElapsed, getEntryMinutes, getRunningEntry, getTotalLoggedMinutes } from "@/lib/timeTracking";
+import { getAllowedTransitions, getStatusCategory, getTransitionTargetInCategory, getWorkflowState } from "@/lib/workflow";
 
 interface TaskCardProps {
   task: Task;
   onEdit?: (task: Task) => void;
   refetch?: () => void;
+  subtasksExpanded?: boolean;
+  onToggleSubtasks?: (task: Task) => void;
+  openBlockers?: Task[]; // Blocking tasks that are not yet completed
+  selected?: boolean;
+  onSelect?: (task: Task, shiftKey: boolean) => void; // Shows a selection checkbox when set
 }
 
-export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
+export function TaskCard({ task, onEdit, refetch, subtasksExpanded, onToggleSubtasks, openBlockers = [], selected = false, onSelect }: TaskCardProps) {
   const [isUpdating, setIsUpdating] = useState(false);
   const [assignee, setAssignee] = useState<User | undefined>(undefined);
   const [loadingAssignee, setLoadingAssignee] = useState(true);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>(task.timeEntries || []);
+  const [isTimerUpdating, setIsTimerUpdating] = useState(false);
+  const [now, setNow] = useState(() => new Date());
 
   // Load assignee information
   useEffect(() => {
@@ -113,7 +133,61 @@ export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
     }
   }, [task.assigneeId]);
 
-  const handleStatusUpdate = async (newStatus: TaskStatus) => {
+  useEffect(() => {
+    setTimeEntries(task.timeEntries || []);
+  }, [task.timeEntries]);
+
+  const subtaskProgress = getSubtaskProgress(task);
+
+  // Workflow state and the transitions this user may make from it
+  const currentUser = getCurrentUser();
+  const workflowState = getWorkflowState(task.status);
+  const statusCategory = workflowState.category;
+  const escalations = getCurrentEscalations(task);
+  const canEditStatus = calculatePermissions(currentUser, task).canEditStatus;
+  const allowedTransitions = canEditStatus ? getAllowedTransitions(task.status, String(currentUser.role)) : [];
+  const completeTarget = canEditStatus ? getTransitionTargetInCategory(task.status, TaskStatus.COMPLETED, String(currentUser.role)) : undefined;
+  const reopenTarget = canEditStatus ? getTransitionTargetInCategory(task.status, TaskStatus.IN_PROGRESS, String(currentUser.role)) : undefined;
+
+  // Time tracking
+  const canLogTime = calculatePermissions(currentUser, task).canLogTime;
+  const runningEntry = getRunningEntry({ ...task, timeEntries }, currentUser.id);
+  const loggedMinutes = getTotalLoggedMinutes({ ...task, timeEntries }, now);
+
+  // Tick once a second while this user's timer is running
+  const runningEntryId = runningEntry?.id;
+  useEffect(() => {
+    if (!runningEntryId) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [runningEntryId]);
+
+  const handleToggleTimer = async () => {
+    setIsTimerUpdating(true);
+    try {
+      if (runningEntry) {
+        const stopped = await stopTaskTimer(task.id, runningEntry.id);
+        if (stopped) {
+          setTimeEntries(prev => prev.map(entry => entry.id === stopped.id ? stopped : entry));
+        }
+      } else {
+        const started = await startTaskTimer(task.id);
+        if (started) {
+          setNow(new Date());
+          setTimeEntries(prev => [...prev, started]);
+        }
+      }
+    } finally {
+      setIsTimerUpdating(false);
+    }
+  };
+
+  const handleStatusUpdate = async (newStatus: TaskStatus | string) => {
+    // Warn before completing a parent whose subtasks are still open
+    if (getStatusCategory(newStatus) === TaskStatus.COMPLETED && !confirmCompleteWithOpenSubtasks(task, confirm)) {
+      return;
+    }
+
     setIsUpdating(true);
     try {
       await updateTaskStatus(task.id, newStatus);
@@ -131,11 +205,11 @@ export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
     const targetDate = new Date(task.targetDate);
     const today = new Date();
     
-    if (task.status === TaskStatus.COMPLETED) {
+    if (statusCategory === TaskStatus.COMPLETED) {
       return "text-green-600";
     } else if (targetDate < today) {
       return "text-red-600"; // Overdue
-    } else if (task.status === TaskStatus.IN_PROGRESS) {
+    } else if (statusCategory === TaskStatus.IN_PROGRESS) {
       return "text-blue-600";
     } else {
       return "text-gray-600";
@@ -144,12 +218,106 @@ export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
 
   return (
     <Card 
-      className="overflow-hidden transition-all duration-300 hover:shadow-card-hover border 
-                 hover:border-primary/20 h-full flex flex-col animate-fade-in"
+      className={`overflow-hidden transition-all duration-300 hover:shadow-card-hover border 
+                 hover:border-primary/20 h-full flex flex-col animate-fade-in ${selected ? "ring-2 ring-primary" : ""}`}
     >
       <CardHeader className="pb-2 pt-4">
         <div className="flex justify-between items-start">
-          <StatusBadge task={task} />
+          <div className="flex items-center gap-1">
+            {onSelect && (
+              <Checkbox
+                checked={selected}
+                onClick={(e) => onSelect(task, e.shiftKey)}
+                aria-label={`Select ${task.title}`}
+                className="mr-1"
+              />
+            )}
+            <StatusBadge task={task} />
+            {openBlockers.length > 0 && statusCategory !== TaskStatus.COMPLETED && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium border bg-orange-50 text-orange-700 border-orange-200">
+                      <Ban className="mr-1 h-3 w-3" />
+                      Blocked
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Waiting on: {openBlockers.map(blocker => blocker.title).join(', ')}</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+            {escalations.length > 0 && statusCategory !== TaskStatus.COMPLETED && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium border bg-red-50 text-red-700 border-red-200">
+                      <AlertTriangle className="mr-1 h-3 w-3" />
+                      Escalated
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {escalations.map(escalation => (
+                      <p key={`${escalation.level}-${escalation.recipientId}`}>
+                        {getUserById(escalation.recipientId)?.name || "Unknown User"} notified {formatDate(escalation.escalatedAt)}
+                      </p>
+                    ))}
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+            {isAwaitingAcceptance(task) && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium border bg-amber-50 text-amber-700 border-amber-200">
+                      <Hourglass className="mr-1 h-3 w-3" />
+                      Not accepted
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>
+                      Waiting for the assignee to accept. Assigned by {getUserById(task.acceptance.assignedBy)?.name || "Unknown User"} on {formatDate(task.acceptance.assignedAt)}
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+            {isAssignmentDeclined(task) && statusCategory !== TaskStatus.COMPLETED && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium border bg-red-50 text-red-700 border-red-200">
+                      <CircleX className="mr-1 h-3 w-3" />
+                      Declined
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>{task.acceptance.declineReason || "No reason given"}</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+            {task.recurrence && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div className="inline-flex items-center text-muted-foreground">
+                      <Repeat className="h-3.5 w-3.5" />
+                      <span className="sr-only">Recurring task</span>
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>
+                      {describeRecurrence(task.recurrence)}
+                      {task.occurrenceIndex ? ` (occurrence ${task.occurrenceIndex})` : ''}
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+          </div>
           <div className="flex items-center gap-2">
             {loadingAssignee ? (
               <div className="h-8 w-8 rounded-full bg-muted animate-pulse"></div>
@@ -184,6 +352,14 @@ export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
         <p className="text-muted-foreground text-sm line-clamp-2 text-left mb-3">
           {task.description || "No description provided"}
         </p>
+
+        {task.tags && task.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            {task.tags.map(tag => (
+              <TagChip key={tag} name={tag} />
+            ))}
+          </div>
+        )}
         
         {/* Assignee Information */}
         <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
@@ -196,6 +372,66 @@ export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
             </span>
           )}
         </div>
+
+        {/* Subtask progress rolled up from children */}
+        {subtaskProgress.total > 0 && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              {onToggleSubtasks ? (
+                <button
+                  type="button"
+                  className="flex items-center gap-1 hover:text-foreground"
+                  onClick={() => onToggleSubtasks(task)}
+                >
+                  {subtasksExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                  <ListTree className="h-3 w-3" />
+                  Subtasks
+                </button>
+              ) : (
+                <span className="flex items-center gap-1">
+                  <ListTree className="h-3 w-3" />
+                  Subtasks
+                </span>
+              )}
+              <span>{subtaskProgress.completed}/{subtaskProgress.total} done</span>
+            </div>
+            <Progress value={subtaskProgress.percentage} className="h-1.5" />
+          </div>
+        )}
+
+        {/* Time tracking */}
+        {(canLogTime || loggedMinutes > 0) && (
+          <div className="flex items-center justify-between text-xs text-muted-foreground mt-2">
+            <span className="flex items-center gap-1">
+              <Timer className="h-3 w-3" />
+              {loggedMinutes > 0 ? `${formatDuration(loggedMinutes)} logged` : 'No time logged'}
+              {task.estimate != null && (
+                <span>· {formatEffort(getRemainingEffort(task))} of {formatEffort(task.estimate)} left</span>
+              )}
+            </span>
+            {canLogTime && statusCategory !== TaskStatus.COMPLETED && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className={`h-6 px-2 text-xs ${runningEntry ? 'text-red-600 hover:text-red-700' : ''}`}
+                onClick={handleToggleTimer}
+                disabled={isTimerUpdating}
+              >
+                {runningEntry ? (
+                  <>
+                    <Square className="h-3 w-3 mr-1" />
+                    <span className="tabular-nums">{formatElapsed(getEntryMinutes(runningEntry, now))}</span>
+                  </>
+                ) : (
+                  <>
+                    <Play className="h-3 w-3 mr-1" />
+                    Start timer
+                  </>
+                )}
+              </Button>
+            )}
+          </div>
+        )}
       </CardContent>
       
       <CardFooter className="pt-4 pb-2 border-t flex-col items-start gap-2">
@@ -212,15 +448,30 @@ export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
         
         <div className="w-full flex justify-between items-center mt-2">
           <div className="text-xs text-muted-foreground">
-            {task.status === TaskStatus.COMPLETED && (
-              <span className="text-green-600 font-medium">✓ Completed</span>
-            )}
-            {task.status === TaskStatus.IN_PROGRESS && (
-              <span className="text-blue-600 font-medium">⏳ In Progress</span>
-            )}
-            {task.status === TaskStatus.NOT_STARTED && (
-              <span className="text-gray-600 font-medium">⭕ Not Started</span>
-            )}
+            {/* Status menu driven by the configured workflow */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild disabled={allowedTransitions.length === 0 || isUpdating}>
+                <button
+                  type="button"
+                  className="flex items-center gap-1 font-medium disabled:cursor-default"
+                  style={{ color: workflowState.color }}
+                >
+                  <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: workflowState.color }} />
+                  {workflowState.name}
+                  {allowedTransitions.length > 0 && <ChevronDown className="h-3 w-3" />}
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuLabel className="text-xs">Move to</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {allowedTransitions.map(state => (
+                  <DropdownMenuItem key={state.id} onClick={() => handleStatusUpdate(state.id)}>
+                    <span className="mr-2 h-2 w-2 rounded-full" style={{ backgroundColor: state.color }} />
+                    {state.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
           
           <div className="flex gap-1">
@@ -245,7 +496,7 @@ export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
               </TooltipProvider>
             )}
             
-            {task.status !== TaskStatus.COMPLETED ? (
+            {statusCategory !== TaskStatus.COMPLETED ? completeTarget && (
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -253,7 +504,7 @@ export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
                       variant="ghost" 
                       size="sm" 
                       className="h-7 px-2 text-xs hover:bg-green-50 hover:text-green-700"
-                      onClick={() => handleStatusUpdate(TaskStatus.COMPLETED)}
+                      onClick={() => handleStatusUpdate(completeTarget.id)}
                       disabled={isUpdating}
                     >
                       <CheckCircle className="h-3.5 w-3.5 mr-1" />
@@ -261,11 +512,11 @@ export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
                     </Button>
                   </TooltipTrigger>
                   <TooltipContent>
-                    <p>Mark as Complete</p>
+                    <p>Move to {completeTarget.name}</p>
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
-            ) : (
+            ) : reopenTarget && (
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -273,7 +524,7 @@ export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
                       variant="ghost" 
                       size="sm" 
                       className="h-7 px-2 text-xs hover:bg-blue-50 hover:text-blue-700"
-                      onClick={() => handleStatusUpdate(TaskStatus.IN_PROGRESS)}
+                      onClick={() => handleStatusUpdate(reopenTarget.id)}
                       disabled={isUpdating}
                     >
                       <Clock className="h-3.5 w-3.5 mr-1" />
@@ -281,7 +532,7 @@ export function TaskCard({ task, onEdit, refetch }: TaskCardProps) {
                     </Button>
                   </TooltipTrigger>
                   <TooltipContent>
-                    <p>Mark as In Progress</p>
+                    <p>Move to {reopenTarget.name}</p>
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
@@ -0,0 +1,308 @@
+import { useEffect, useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { MentionTextarea } from "./MentionTextarea";
+import { MessageSquare, Pencil, Reply, Trash2 } from "lucide-react";
+import { Task, TaskComment, User } from "@/lib/types";
+import {
+  addTaskComment,
+  deleteTaskComment,
+  fetchMentionableUsers,
+  getCurrentUser,
+  getTaskComments,
+  getUserById,
+  notifyMentionedUsers,
+  notifyWatchersOfComment,
+  updateTaskComment
+} from "@/lib/dataService.ts";
+import { resolveMentions, splitMentions } from "@/lib/mentions";
+import { buildCommentThreads, CommentThread, countComments } from "@/lib/taskComments";
+import { calculateTaskPermissions, canModifyComment } from "@/lib/taskPermissions";
+import { getInitials } from "@/lib/utils";
+import { formatDistanceToNow, parseISO } from "date-fns";
+
+interface TaskCommentsProps {
+  task: Task;
+  onWatchersChange?: (watcherIds: string[]) => void; // Called when commenting makes the user a watcher
+}
+
+const MAX_INDENT_DEPTH = 3;
+
+export function TaskComments({ task, onWatchersChange }: TaskCommentsProps) {
+  const [comments, setComments] = useState<TaskComment[]>(task.comments || []);
+  const [loading, setLoading] = useState(false);
+  const [newComment, setNewComment] = useState("");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [mentionableUsers, setMentionableUsers] = useState<User[]>([]);
+  const [mentionedUserIds, setMentionedUserIds] = useState<string[]>([]); // Picked from the @ suggestions
+
+  const currentUser = getCurrentUser();
+  const canComment = calculateTaskPermissions(currentUser, task).canComment;
+
+  useEffect(() => {
+    const loadComments = async () => {
+      setLoading(true);
+      try {
+        setComments(await getTaskComments(task.id));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComments();
+  }, [task.id]);
+
+  useEffect(() => {
+    if (canComment) {
+      fetchMentionableUsers().then(setMentionableUsers);
+    }
+  }, [canComment]);
+
+  // Only users picked from the suggestions count as mentioned, whatever names are typed
+  const getPickedUsers = () => mentionableUsers.filter(user => mentionedUserIds.includes(user.id));
+  const handleMention = (user: User) => setMentionedUserIds(prev => [...prev, user.id]);
+
+  const handleAdd = async (text: string, parentId?: string) => {
+    if (!text.trim()) return false;
+
+    setIsSubmitting(true);
+    try {
+      const mentions = resolveMentions(text, getPickedUsers());
+      const comment = await addTaskComment(task.id, text.trim(), parentId, mentions);
+      if (!comment) return false;
+      setComments(prev => [...prev, comment]);
+      await notifyMentionedUsers(task, mentions, 'comment');
+      const watchers = await notifyWatchersOfComment(task, mentions);
+      if (watchers && onWatchersChange) onWatchersChange(watchers);
+      return true;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmitComment = async () => {
+    if (await handleAdd(newComment)) {
+      setNewComment("");
+    }
+  };
+
+  const handleSubmitReply = async (parentId: string) => {
+    if (await handleAdd(replyText, parentId)) {
+      setReplyText("");
+      setReplyingTo(null);
+    }
+  };
+
+  const handleSaveEdit = async (commentId: string) => {
+    if (!editText.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const previousMentions = comments.find(c => c.id === commentId)?.mentions || [];
+      const mentions = resolveMentions(editText, getPickedUsers());
+      const updated = await updateTaskComment(task.id, commentId, editText.trim(), mentions);
+      if (updated) {
+        // Only people newly mentioned by the edit are notified
+        await notifyMentionedUsers(task, mentions.filter(id => !previousMentions.includes(id)), 'comment');
+        setComments(prev => prev.map(c => c.id === commentId ? { ...c, ...updated } : c));
+        setEditingId(null);
+        setEditText("");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm("Delete this comment?")) return;
+
+    const deleted = await deleteTaskComment(task.id, commentId);
+    if (deleted) {
+      setComments(prev => prev.filter(c => c.id !== commentId));
+    }
+  };
+
+  const renderThread = (thread: CommentThread, depth: number) => {
+    const { comment } = thread;
+    const author = getUserById(comment.author);
+    const isOwn = canModifyComment(currentUser, comment);
+    const isEditingThis = editingId === comment.id;
+
+    return (
+      <div key={comment.id || comment.createdAt} className="space-y-2">
+        <div className="flex gap-2">
+          <Avatar className="h-7 w-7 text-xs">
+            <AvatarImage src={author?.avatarUrl} alt={author?.name} className="object-cover" />
+            <AvatarFallback className="bg-primary text-primary-foreground">
+              {getInitials(author?.name || "?")}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-baseline gap-2 text-xs">
+              <span className="font-medium">{author?.name || "Unknown User"}</span>
+              <span className="text-muted-foreground">
+                {formatDistanceToNow(parseISO(comment.createdAt), { addSuffix: true })}
+                {comment.updatedAt && comment.updatedAt !== comment.createdAt && " (edited)"}
+              </span>
+            </div>
+
+            {isEditingThis ? (
+              <div className="space-y-2 pt-1">
+                <MentionTextarea
+                  value={editText}
+                  onChange={setEditText}
+                  mentionableUsers={mentionableUsers}
+            onMention={handleMention}
+                  rows={2}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="button" size="sm" onClick={() => handleSaveEdit(comment.id!)} disabled={isSubmitting || !editText.trim()}>
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm whitespace-pre-wrap break-words">
+                {splitMentions(comment.text, (comment.mentions || []).map(id => getUserById(id)).filter(Boolean)).map((part, index) =>
+                  part.userId ? (
+                    <span key={index} className="font-medium text-primary">{part.text}</span>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  )
+                )}
+              </p>
+            )}
+
+            {!isEditingThis && comment.id && (
+              <div className="flex gap-1 pt-0.5">
+                {canComment && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-1.5 text-xs text-muted-foreground"
+                    onClick={() => {
+                      setReplyingTo(comment.id!);
+                      setReplyText("");
+                    }}
+                  >
+                    <Reply className="h-3 w-3 mr-1" />
+                    Reply
+                  </Button>
+                )}
+                {isOwn && (
+                  <>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-1.5 text-xs text-muted-foreground"
+                      onClick={() => {
+                        setEditingId(comment.id!);
+                        setEditText(comment.text);
+                        setMentionedUserIds(prev => [...prev, ...(comment.mentions || [])]);
+                      }}
+                    >
+                      <Pencil className="h-3 w-3 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-1.5 text-xs text-muted-foreground hover:text-destructive"
+                      onClick={() => handleDelete(comment.id!)}
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Delete
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {replyingTo === comment.id && (
+              <div className="space-y-2 pt-1">
+                <MentionTextarea
+                  value={replyText}
+                  onChange={setReplyText}
+                  mentionableUsers={mentionableUsers}
+            onMention={handleMention}
+                  rows={2}
+                  placeholder={`Reply to ${author?.name || "comment"}...`}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setReplyingTo(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="button" size="sm" onClick={() => handleSubmitReply(comment.id!)} disabled={isSubmitting || !replyText.trim()}>
+                    Reply
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {thread.replies.length > 0 && (
+          <div className={depth < MAX_INDENT_DEPTH ? "ml-4 border-l pl-3 space-y-3" : "space-y-3"}>
+            {thread.replies.map(reply => renderThread(reply, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const threads = buildCommentThreads(comments);
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <h4 className="flex items-center gap-2 text-sm font-medium">
+        <MessageSquare className="h-4 w-4" />
+        Comments
+        {comments.length > 0 && (
+          <span className="text-muted-foreground font-normal">({countComments(threads)})</span>
+        )}
+      </h4>
+
+      {loading && comments.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Loading comments...</p>
+      ) : threads.length > 0 ? (
+        <div className="space-y-3">
+          {threads.map(thread => renderThread(thread, 0))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">No comments yet.</p>
+      )}
+
+      {canComment ? (
+        <div className="space-y-2">
+          <MentionTextarea
+            value={newComment}
+            onChange={setNewComment}
+            mentionableUsers={mentionableUsers}
+            onMention={handleMention}
+            rows={2}
+            placeholder="Write a comment... Type @ to mention someone"
+          />
+          <div className="flex justify-end">
+            <Button type="button" size="sm" onClick={handleSubmitComment} disabled={isSubmitting || !newComment.trim()}>
+              Comment
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">You don't have permission to comment on this task.</p>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { StatusBadge } from "./StatusBadge";
 import { Calendar, CheckCircle, Clock, Edit, User } from "lucide-react";
 import { getInitials } from "@/lib/utils";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { confirmCompleteWithOpenSubtasks } from "@/lib/taskHierarchy";
+import { getDefaultStateForCategory, isCompletedStatus } from "@/lib/workflow";
 
 interface TaskDetailsListProps {
   tasks: Task[];
@@ -29,10 +31,13 @@ export function TaskDetailsList({ tasks, onEdit, emptyMessage, refetch }: TaskDe
     );
   }
 
-  const handleMarkComplete = async (taskId: string) => {
-    setUpdatingTaskId(taskId);
+  const handleMarkComplete = async (task: Task) => {
+    if (!confirmCompleteWithOpenSubtasks(task, confirm)) return;
+
+    setUpdatingTaskId(task.id);
     try {
-      await updateTaskStatus(taskId, TaskStatus.COMPLETED);
+      const completedState = getDefaultStateForCategory(TaskStatus.COMPLETED);
+      await updateTaskStatus(task.id, completedState?.id || TaskStatus.COMPLETED);
       if (refetch) refetch();
     } catch (error) {
       console.error("Error updating task status:", error);
@@ -115,12 +120,12 @@ export function TaskDetailsList({ tasks, onEdit, emptyMessage, refetch }: TaskDe
                       </Button>
                     )}
                     
-                    {task.status !== "completed" ? (
+                    {!isCompletedStatus(task.status) ? (
                       <Button 
                         variant="ghost" 
                         size="sm" 
                         className="h-7 w-7 p-0"
-                        onClick={() => handleMarkComplete(task.id)}
+                        onClick={() => handleMarkComplete(task)}
                         disabled={updatingTaskId === task.id}
                       >
                         <CheckCircle className="h-3.5 w-3.5" />
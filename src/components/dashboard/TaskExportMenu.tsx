@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { CalendarPlus, Download, FileSpreadsheet, FileText, ListTodo } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Task } from "@/lib/types";
+import { getUserById } from "@/lib/dataService.ts";
+import { buildICalendar, ICAL_MIME_TYPE, ICalComponent } from "@/lib/ical";
+import { CSV_MIME_TYPE, toCsv } from "@/lib/csv";
+import { buildXlsx, XLSX_MIME_TYPE } from "@/lib/xlsx";
+import {
+  buildTaskExportRows,
+  formatExportDates,
+  getExportColumnIds,
+  setExportColumnIds,
+  TASK_EXPORT_COLUMNS,
+  TaskExportColumnId,
+  TaskExportFormat
+} from "@/lib/taskExport";
+import { downloadFile } from "@/lib/utils";
+
+interface TaskExportMenuProps {
+  tasks: Task[]; // The filtered list being exported
+  name?: string; // Calendar, sheet and file name
+}
+
+export function TaskExportMenu({ tasks, name = "Tasks" }: TaskExportMenuProps) {
+  const [spreadsheetFormat, setSpreadsheetFormat] = useState<TaskExportFormat | null>(null);
+  const [columnIds, setColumnIds] = useState<TaskExportColumnId[]>(getExportColumnIds);
+
+  const fileBaseName = `${name.replace(/[^\w]+/g, '-').toLowerCase()}-${format(new Date(), 'yyyy-MM-dd')}`;
+  const exportedMessage = `Exported ${tasks.length} task${tasks.length === 1 ? '' : 's'}`;
+
+  const handleExportICal = (component: ICalComponent) => {
+    downloadFile(buildICalendar(tasks, component, name), `${fileBaseName}.ics`, ICAL_MIME_TYPE);
+    toast.success(exportedMessage);
+  };
+
+  const toggleColumn = (id: TaskExportColumnId) => {
+    setColumnIds(prev => prev.includes(id) ? prev.filter(columnId => columnId !== id) : [...prev, id]);
+  };
+
+  const handleExportSpreadsheet = () => {
+    const rows = buildTaskExportRows(tasks, columnIds, {
+      resolveUser: getUserById,
+      now: new Date()
+    });
+
+    if (spreadsheetFormat === 'xlsx') {
+      downloadFile(buildXlsx(rows, name), `${fileBaseName}.xlsx`, XLSX_MIME_TYPE);
+    } else {
+      // The byte order mark makes Excel read the file as UTF-8
+      downloadFile(`\uFEFF${toCsv(formatExportDates(rows))}`, `${fileBaseName}.csv`, CSV_MIME_TYPE);
+    }
+
+    setExportColumnIds(columnIds);
+    setSpreadsheetFormat(null);
+    toast.success(exportedMessage);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={tasks.length === 0}>
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel className="text-xs">Spreadsheet</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => setSpreadsheetFormat('xlsx')}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Excel (.xlsx)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setSpreadsheetFormat('csv')}>
+            <FileText className="h-4 w-4 mr-2" />
+            CSV (.csv)
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs">Calendar (.ics)</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => handleExportICal('VEVENT')}>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            As events on target dates
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExportICal('VTODO')}>
+            <ListTodo className="h-4 w-4 mr-2" />
+            As to-dos
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!spreadsheetFormat} onOpenChange={(open) => !open && setSpreadsheetFormat(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Export {tasks.length} Task{tasks.length === 1 ? '' : 's'}</DialogTitle>
+            <DialogDescription>Choose the columns to include</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2">
+            {TASK_EXPORT_COLUMNS.map(column => (
+              <div key={column.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`export-column-${column.id}`}
+                  checked={columnIds.includes(column.id)}
+                  onCheckedChange={() => toggleColumn(column.id)}
+                />
+                <Label htmlFor={`export-column-${column.id}`} className="font-normal">{column.label}</Label>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSpreadsheetFormat(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleExportSpreadsheet} disabled={columnIds.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              Download {spreadsheetFormat === 'xlsx' ? '.xlsx' : '.csv'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
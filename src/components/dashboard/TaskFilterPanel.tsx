@@ -0,0 +1,177 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDownNarrowWide, ArrowUpNarrowWide, ChevronDown, X } from "lucide-react";
+import { TaskFilters, TaskPriority, TaskSort, TaskSortField } from "@/lib/types";
+import { countActiveFilters, TASK_SORT_FIELDS } from "@/lib/taskFilters";
+import { QueryContext } from "@/lib/taskQuery";
+import { getWorkflowStates } from "@/lib/workflow";
+import { cn, formatPriority } from "@/lib/utils";
+import { TaskQueryInput } from "./TaskQueryInput";
+
+interface FilterOption {
+  value: string;
+  label: string;
+}
+
+interface TaskFilterPanelProps {
+  filters: TaskFilters;
+  sort: TaskSort;
+  onFiltersChange: (filters: TaskFilters) => void;
+  onSortChange: (sort: TaskSort) => void;
+  assigneeOptions: FilterOption[];
+  tagOptions: string[];
+  queryContext: QueryContext; // Resolves assignee:me and names typed in the search box
+}
+
+interface FilterMultiSelectProps {
+  label: string;
+  options: FilterOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+function FilterMultiSelect({ label, options, selected, onChange }: FilterMultiSelectProps) {
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn("justify-between", selected.length > 0 && "border-primary")}>
+          {label}
+          {selected.length > 0 && <span className="ml-1 text-primary">({selected.length})</span>}
+          <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-2" align="start">
+        {options.length > 0 ? (
+          <div className="max-h-64 space-y-1 overflow-y-auto">
+            {options.map(option => (
+              <label key={option.value} className="flex cursor-pointer items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-muted">
+                <Checkbox checked={selected.includes(option.value)} onCheckedChange={() => toggle(option.value)} />
+                <span className="truncate">{option.label}</span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">Nothing to filter by</p>
+        )}
+        {selected.length > 0 && (
+          <Button variant="ghost" size="sm" className="mt-1 w-full" onClick={() => onChange([])}>
+            Clear
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function TaskFilterPanel({ filters, sort, onFiltersChange, onSortChange, assigneeOptions, tagOptions, queryContext }: TaskFilterPanelProps) {
+  const update = (changes: Partial<TaskFilters>) => onFiltersChange({ ...filters, ...changes });
+  const activeCount = countActiveFilters(filters);
+
+  const updateDateRange = (changes: Partial<{ start: string; end: string }>) => {
+    const dateRange = { start: "", end: "", ...filters.dateRange, ...changes };
+    update({ dateRange: dateRange.start || dateRange.end ? dateRange : undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      <TaskQueryInput
+        value={filters.search || ""}
+        onChange={(search) => update({ search: search || undefined })}
+        context={queryContext}
+        tags={tagOptions}
+      />
+
+      <div className="flex flex-wrap items-end gap-2">
+        <FilterMultiSelect
+          label="Status"
+          options={getWorkflowStates().map(state => ({ value: state.id, label: state.name }))}
+          selected={filters.status || []}
+          onChange={(status) => update({ status: status.length ? status : undefined })}
+        />
+        <FilterMultiSelect
+          label="Priority"
+          options={Object.values(TaskPriority).map(priority => ({ value: priority, label: formatPriority(priority) }))}
+          selected={filters.priority || []}
+          onChange={(priority) => update({ priority: priority.length ? priority as TaskPriority[] : undefined })}
+        />
+        <FilterMultiSelect
+          label="Assignee"
+          options={assigneeOptions}
+          selected={filters.assignees || []}
+          onChange={(assignees) => update({ assignees: assignees.length ? assignees : undefined })}
+        />
+        <FilterMultiSelect
+          label="Tags"
+          options={tagOptions.map(tag => ({ value: tag, label: tag }))}
+          selected={filters.tags || []}
+          onChange={(tags) => update({ tags: tags.length ? tags : undefined })}
+        />
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-from" className="text-xs text-muted-foreground">Due from</Label>
+          <Input
+            id="filter-from"
+            type="date"
+            className="w-[150px]"
+            value={filters.dateRange?.start || ""}
+            onChange={(e) => updateDateRange({ start: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-to" className="text-xs text-muted-foreground">Due to</Label>
+          <Input
+            id="filter-to"
+            type="date"
+            className="w-[150px]"
+            value={filters.dateRange?.end || ""}
+            onChange={(e) => updateDateRange({ end: e.target.value })}
+          />
+        </div>
+
+        <label className="flex h-10 items-center gap-2 text-sm">
+          <Checkbox
+            checked={!!filters.overdue}
+            onCheckedChange={(checked) => update({ overdue: checked === true || undefined })}
+          />
+          Overdue only
+        </label>
+
+        <div className="ml-auto flex items-center gap-1">
+          <Select value={sort.field} onValueChange={(field) => onSortChange({ ...sort, field: field as TaskSortField })}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TASK_SORT_FIELDS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onSortChange({ ...sort, direction: sort.direction === "asc" ? "desc" : "asc" })}
+            title={sort.direction === "asc" ? "Ascending" : "Descending"}
+          >
+            {sort.direction === "asc" ? <ArrowUpNarrowWide className="h-4 w-4" /> : <ArrowDownNarrowWide className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+
+      {(activeCount > 0 || filters.search) && (
+        <Button variant="ghost" size="sm" onClick={() => onFiltersChange({})}>
+          <X className="h-4 w-4 mr-1" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -7,11 +7,31 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon, Lock } from "lucide-react";
-import { Task, TaskStatus, User, UserRole } from "@/lib/types";
-import { addTask, updateTask, getCurrentUser, getAssignableUsers } from "@/lib/dataService.ts";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowDown, ArrowUp, CalendarIcon, ClipboardList, Lock, Plus, Repeat, X } from "lucide-react";
+import { ReassignmentRequest, RecurrenceFrequency, Task, TaskPriority, TaskRecurrence, TaskStatus, TaskTemplate, User } from "@/lib/types";
+import { addTask, updateTask, getCurrentUser, getAssignableUsers, addSubtask, reorderSubtasks, fetchMentionableUsers, notifyMentionedUsers, uploadTaskAttachment, getTaskTemplates, getReassignmentRequests, getUserById } from "@/lib/dataService.ts";
+import { confirmCompleteWithOpenSubtasks } from "@/lib/taskHierarchy";
+import { describeDependencyCycle, findDependencyCycle, getOpenBlockers } from "@/lib/taskDependencies";
+import { describeRecurrence, WEEKDAY_LABELS } from "@/lib/recurrence";
+import { ESTIMATE_UNITS, getEstimateUnit } from "@/lib/estimates";
+import { buildTaskFromTemplate } from "@/lib/taskTemplates";
+import { calculatePermissions, FieldPermissions } from "@/lib/taskPermissions";
+import { getAllowedTransitions, getDefaultStateForCategory, getStatusCategory, getWorkflowState, isCompletedStatus } from "@/lib/workflow";
+import { TaskComments } from "./TaskComments";
+import { TaskAttachments } from "./TaskAttachments";
+import { TaskTimeLog } from "./TaskTimeLog";
+import { TaskHistory } from "./TaskHistory";
+import { TaskWatchers } from "./TaskWatchers";
+import { ReassignmentRequestDialog } from "./ReassignmentRequestDialog";
+import { MentionTextarea } from "./MentionTextarea";
+import { TagInput } from "./TagInput";
+import { resolveMentions } from "@/lib/mentions";
+import { getWatcherIds } from "@/lib/watchers";
+import { canRequestReassignment } from "@/lib/reassignment";
 import { format } from "date-fns";
-import { cn } from "@/lib/utils";
+import { cn, formatPriority } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface TaskFormProps {
@@ -19,25 +39,37 @@ interface TaskFormProps {
   onOpenChange: (open: boolean) => void;
   task?: Task;
   onSuccess?: () => void;
+  availableTasks?: Task[]; // Tasks that can be selected as blockers
 }
 
-interface FieldPermissions {
-  canEditTitle: boolean;
-  canEditDescription: boolean;
-  canEditAssignee: boolean;
-  canEditTargetDate: boolean;
-  canEditStatus: boolean;
-  canEditRemarks: boolean;
-}
+type TaskFormTab = "details" | "comments" | "history";
 
-export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps) {
+export function TaskForm({ open, onOpenChange, task, onSuccess, availableTasks = [] }: TaskFormProps) {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [assigneeId, setAssigneeId] = useState("");
   const [targetDate, setTargetDate] = useState<Date>();
-  const [status, setStatus] = useState<TaskStatus>(TaskStatus.NOT_STARTED);
+  const [status, setStatus] = useState<TaskStatus | string>(TaskStatus.NOT_STARTED);
   const [remarks, setRemarks] = useState("");
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [newSubtasks, setNewSubtasks] = useState<string[]>([]);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
+  const [blockedBy, setBlockedBy] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | undefined>(undefined);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [estimate, setEstimate] = useState("");
+  const [activeTab, setActiveTab] = useState<TaskFormTab>("details");
+  const [remainingEffort, setRemainingEffort] = useState("");
+  const [priority, setPriority] = useState<TaskPriority | string>(TaskPriority.MEDIUM);
+  const [tags, setTags] = useState<string[]>([]);
+  const [watcherIds, setWatcherIds] = useState<string[]>([]);
+  const [pendingReassignment, setPendingReassignment] = useState<ReassignmentRequest | undefined>(undefined);
+  const [isReassignmentOpen, setIsReassignmentOpen] = useState(false);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
   const [assignableUsers, setAssignableUsers] = useState<User[]>([]);
+  const [mentionableUsers, setMentionableUsers] = useState<User[]>([]);
+  const [mentionedUserIds, setMentionedUserIds] = useState<string[]>([]); // Picked from the @ suggestions
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loadingUsers, setLoadingUsers] = useState(false);
   const [permissions, setPermissions] = useState<FieldPermissions>({
@@ -46,87 +78,21 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
     canEditAssignee: false,
     canEditTargetDate: false,
     canEditStatus: false,
-    canEditRemarks: false
+    canEditRemarks: false,
+    canEditSubtasks: false,
+    canEditDependencies: false,
+    canUploadAttachments: false,
+    canLogTime: false,
+    canEditEstimate: false,
+    canEditRemainingEffort: false,
+    canEditPriority: false,
+    canEditTags: false
   });
   
   const currentUser = getCurrentUser();
   const isEditing = !!task;
+  const estimateUnit = getEstimateUnit();
   
-  // Calculate field permissions based on user role and task details
-  const calculatePermissions = (currentUser: User, task?: Task): FieldPermissions => {
-    if (!task) {
-      // Creating new task - user can edit all fields
-      return {
-        canEditTitle: true,
-        canEditDescription: true,
-        canEditAssignee: true,
-        canEditTargetDate: true,
-        canEditStatus: true,
-        canEditRemarks: true
-      };
-    }
-
-    const isCreator = task.createdBy === currentUser.id;
-    const isAssignee = task.assigneeId === currentUser.id;
-    const isSuperAdmin = currentUser.role === UserRole.SUPER_ADMIN || currentUser.role === 'super_admin';
-    const isManager = currentUser.role === UserRole.MANAGER || currentUser.role === 'manager';
-    const isSupervisor = currentUser.role === UserRole.SUPERVISOR || currentUser.role === 'supervisor';
-
-    // For editing existing tasks
-    return {
-      // Title: Only creator or super admin can edit
-      canEditTitle: isCreator || isSuperAdmin,
-      
-      // Description: Only creator or super admin can edit
-      canEditDescription: isCreator || isSuperAdmin,
-      
-      // Assignee: Based on role hierarchy
-      canEditAssignee: (() => {
-        if (isSuperAdmin) return true;
-        if (isCreator) return true;
-        if (currentUser.role === UserRole.MEMBER || currentUser.role === 'member') return false;
-        
-        // Supervisor can edit if task is assigned to them or their team members
-        if (isSupervisor) {
-          return isAssignee; // Can reassign their own tasks
-        }
-        
-        // Manager can edit if task is in their team
-        if (isManager) {
-          return true; // Managers can generally reassign within their team
-        }
-        
-        return false;
-      })(),
-      
-      // Target Date: Only creator or super admin can edit
-      canEditTargetDate: isCreator || isSuperAdmin,
-      
-      // Status: Assignee or their supervisor/manager can edit
-      canEditStatus: (() => {
-        if (isSuperAdmin) return true;
-        if (isAssignee) return true;
-        
-        // Check if current user is supervisor/manager of the assignee
-        // For now, we'll allow supervisors and managers to edit status
-        if (isSupervisor || isManager) return true;
-        
-        return false;
-      })(),
-      
-      // Remarks: Assignee or their supervisor/manager can edit
-      canEditRemarks: (() => {
-        if (isSuperAdmin) return true;
-        if (isAssignee) return true;
-        
-        // Check if current user is supervisor/manager of the assignee
-        if (isSupervisor || isManager) return true;
-        
-        return false;
-      })()
-    };
-  };
-
   // Load assignable users
   const loadAssignableUsers = async () => {
     setLoadingUsers(true);
@@ -161,6 +127,19 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
         setTargetDate(new Date(task.targetDate));
         setStatus(task.status);
         setRemarks(task.remarks || "");
+        setMentionedUserIds(task.remarkMentions || []);
+        setSubtasks(task.subtasks || []);
+        setBlockedBy(task.blockedBy || []);
+        setRecurrence(task.recurrence);
+        setEstimate(task.estimate != null ? String(task.estimate) : "");
+        setRemainingEffort(task.remainingEffort != null ? String(task.remainingEffort) : "");
+        setPriority(task.priority || TaskPriority.MEDIUM);
+        setTags(task.tags || []);
+        setWatcherIds(getWatcherIds(task));
+        setPendingReassignment(undefined);
+        if (canRequestReassignment(currentUser, task)) {
+          getReassignmentRequests({ taskId: task.id, status: 'pending' }).then(requests => setPendingReassignment(requests[0]));
+        }
         
         // Calculate permissions for existing task
         const perms = calculatePermissions(currentUser, task);
@@ -171,56 +150,151 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
         setDescription("");
         setAssigneeId("");
         setTargetDate(undefined);
-        setStatus(TaskStatus.NOT_STARTED);
+        setStatus(getDefaultStateForCategory(TaskStatus.NOT_STARTED)?.id || TaskStatus.NOT_STARTED);
         setRemarks("");
+        setMentionedUserIds([]);
+        setSubtasks([]);
+        setBlockedBy([]);
+        setRecurrence(undefined);
+        setEstimate("");
+        setRemainingEffort("");
+        setPriority(TaskPriority.MEDIUM);
+        setTags([]);
+        setTemplateId("");
         
         // For new tasks, user can edit all fields
         setPermissions(calculatePermissions(currentUser));
+        getTaskTemplates().then(setTemplates);
       }
       
+      setNewSubtasks([]);
+      setNewSubtaskTitle("");
+      setPendingFiles([]);
+      setActiveTab("details");
+
       // Load assignable users
       loadAssignableUsers();
+      fetchMentionableUsers().then(setMentionableUsers);
     }
   }, [open, task, currentUser.id]);
   
+  // Pre-fill a new task from a template; dates resolve relative to today
+  const handleApplyTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+
+    const fields = buildTaskFromTemplate(template, assignableUsers, currentUser);
+    setTemplateId(id);
+    setTitle(fields.title);
+    setDescription(fields.description);
+    setPriority(fields.priority);
+    setTags(fields.tags);
+    setTargetDate(fields.targetDate);
+    if (fields.assigneeId) setAssigneeId(fields.assigneeId);
+    setNewSubtasks(fields.subtasks);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!title || !assigneeId || !targetDate) {
       toast.error("Please fill out all required fields");
       return;
     }
+
+    if ([estimate, remainingEffort].some(value => value.trim() && !(Number(value) >= 0))) {
+      toast.error("Estimate and remaining effort must be zero or more");
+      return;
+    }
     
+    // Warn before completing a parent whose subtasks are still open
+    if (isEditing && task && isCompletedStatus(status) && !isCompletedStatus(task.status) &&
+        !confirmCompleteWithOpenSubtasks(task, confirm)) {
+      return;
+    }
+
+    // A task cannot be started while its blockers are still open
+    if (isEditing && task && getStatusCategory(status) === TaskStatus.IN_PROGRESS &&
+        getStatusCategory(task.status) !== TaskStatus.IN_PROGRESS) {
+      const openBlockers = getOpenBlockers({ ...task, blockedBy }, availableTasks);
+      if (openBlockers.length > 0) {
+        toast.error(`Cannot start this task: it is blocked by ${openBlockers.map(t => `"${t.title}"`).join(', ')}`);
+        return;
+      }
+    }
+
+    // Reject dependency cycles before anything is saved
+    if (isEditing && task && permissions.canEditDependencies) {
+      const cycle = findDependencyCycle(task.id, blockedBy, availableTasks);
+      if (cycle) {
+        toast.error(`Circular dependency: ${describeDependencyCycle(cycle, availableTasks)}`);
+        return;
+      }
+    }
+
     setIsSubmitting(true);
     
     try {
+      const remarkMentions = resolveMentions(remarks, mentionableUsers.filter(user => mentionedUserIds.includes(user.id)));
+      const estimateValue = estimate.trim() ? Number(estimate) : null;
+      // New tasks start with all of their estimated effort remaining
+      const remainingValue = remainingEffort.trim() ? Number(remainingEffort) : (isEditing ? null : estimateValue);
       const taskData = {
         title,
         description,
         assigneeId,
         targetDate: targetDate.toISOString(),
         status,
-        remarks
+        remarks,
+        remarkMentions,
+        blockedBy,
+        recurrence,
+        estimate: estimateValue,
+        remainingEffort: remainingValue,
+        priority,
+        tags
       };
 
       if (isEditing && task) {
         // For editing, only include fields that user can edit
-        const updateData: any = { ...task };
+        // Subtasks are saved separately, so the nested tree stays out of the update
+        const updateData: any = { ...task, subtasks: undefined };
         
         if (permissions.canEditTitle) updateData.title = title;
         if (permissions.canEditDescription) updateData.description = description;
         if (permissions.canEditAssignee) updateData.assigneeId = assigneeId;
-        if (permissions.canEditTargetDate) updateData.targetDate = targetDate.toISOString();
+        if (permissions.canEditTargetDate) {
+          updateData.targetDate = targetDate.toISOString();
+          updateData.recurrence = recurrence;
+        }
         if (permissions.canEditStatus) updateData.status = status;
-        if (permissions.canEditRemarks) updateData.remarks = remarks;
+        if (permissions.canEditRemarks) {
+          updateData.remarks = remarks;
+          updateData.remarkMentions = remarkMentions;
+        }
+        if (permissions.canEditDependencies) updateData.blockedBy = blockedBy;
+        if (permissions.canEditEstimate) updateData.estimate = estimateValue;
+        if (permissions.canEditRemainingEffort) updateData.remainingEffort = remainingValue;
+        if (permissions.canEditPriority) updateData.priority = priority;
+        if (permissions.canEditTags) updateData.tags = tags;
         
         updateData.lastUpdated = new Date().toISOString();
         
-        await updateTask(updateData);
+        await updateTask(updateData, task);
+        await saveSubtasks({ ...task, ...updateData });
+        await saveAttachments(task.id);
+
+        if (permissions.canEditRemarks) {
+          const previousMentions = task.remarkMentions || [];
+          await notifyMentionedUsers(updateData, remarkMentions.filter(id => !previousMentions.includes(id)), 'remarks');
+        }
       } else {
-        await addTask({
+        const newTask = await addTask({
           ...taskData,
           assignedDate: new Date().toISOString()
         });
+        await saveSubtasks(newTask);
+        await saveAttachments(newTask.id);
+        await notifyMentionedUsers(newTask, remarkMentions, 'remarks');
       }
       
       if (onSuccess) onSuccess();
@@ -233,6 +307,89 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
     }
   };
 
+  // Persist subtask ordering changes and create any subtasks added inline
+  const saveSubtasks = async (parentTask: Task) => {
+    if (!permissions.canEditSubtasks || !targetDate) return;
+
+    const originalOrder = (task?.subtasks || []).map(subtask => subtask.id);
+    const currentOrder = subtasks.map(subtask => subtask.id);
+    if (originalOrder.join(',') !== currentOrder.join(',')) {
+      await reorderSubtasks(parentTask.id, currentOrder);
+    }
+
+    for (const [index, subtaskTitle] of newSubtasks.entries()) {
+      await addSubtask(parentTask, {
+        title: subtaskTitle,
+        description: "",
+        assigneeId,
+        targetDate: targetDate.toISOString(),
+        status: getDefaultStateForCategory(TaskStatus.NOT_STARTED)?.id || TaskStatus.NOT_STARTED,
+        assignedDate: new Date().toISOString(),
+        order: subtasks.length + index
+      });
+    }
+  };
+
+  // Upload files queued in the attachments area
+  const saveAttachments = async (taskId: string) => {
+    if (!permissions.canUploadAttachments) return;
+
+    for (const file of pendingFiles) {
+      await uploadTaskAttachment(taskId, file);
+    }
+  };
+
+  const handleAddSubtask = () => {
+    const subtaskTitle = newSubtaskTitle.trim();
+    if (!subtaskTitle) return;
+    setNewSubtasks(prev => [...prev, subtaskTitle]);
+    setNewSubtaskTitle("");
+  };
+
+  const handleRecurrenceFrequencyChange = (value: string) => {
+    if (value === "none") {
+      setRecurrence(undefined);
+      return;
+    }
+    const frequency = value as RecurrenceFrequency;
+    setRecurrence(prev => ({
+      frequency,
+      weekdays: frequency === "weekly" ? (prev?.weekdays?.length ? prev.weekdays : [targetDate ? targetDate.getDay() : new Date().getDay()]) : undefined,
+      dayOfMonth: frequency === "monthly" ? (prev?.dayOfMonth || (targetDate ? targetDate.getDate() : 1)) : undefined,
+      intervalDays: frequency === "every_n_days" ? (prev?.intervalDays || 2) : undefined,
+      endAfterOccurrences: prev?.endAfterOccurrences,
+      endDate: prev?.endDate
+    }));
+  };
+
+  const toggleRecurrenceWeekday = (day: number) => {
+    setRecurrence(prev => {
+      if (!prev) return prev;
+      const weekdays = prev.weekdays || [];
+      const next = weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day];
+      return { ...prev, weekdays: next.length > 0 ? next.sort() : weekdays };
+    });
+  };
+
+  const handleRecurrenceEndChange = (value: string) => {
+    setRecurrence(prev => prev && ({
+      ...prev,
+      endAfterOccurrences: value === "after" ? (prev.endAfterOccurrences || 5) : undefined,
+      endDate: value === "on" ? (prev.endDate || (targetDate || new Date()).toISOString()) : undefined
+    }));
+  };
+
+  const recurrenceEnd = recurrence?.endAfterOccurrences ? "after" : recurrence?.endDate ? "on" : "never";
+
+  // Move an item one position up or down within a list
+  const moveItem = <T,>(items: T[], index: number, direction: -1 | 1): T[] => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return items;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+  };
+
   const LockedField = ({ children, locked, reason }: { 
     children: React.ReactNode; 
     locked: boolean; 
@@ -263,8 +420,43 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
             }
           </DialogDescription>
         </DialogHeader>
+
+        {isEditing && task && (
+          <TaskWatchers task={task} watcherIds={watcherIds} onChange={setWatcherIds} />
+        )}
+
+        {isEditing && (
+          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as TaskFormTab)}>
+            <TabsList className="w-full">
+              <TabsTrigger value="details" className="flex-1">Details</TabsTrigger>
+              <TabsTrigger value="comments" className="flex-1">Comments</TabsTrigger>
+              <TabsTrigger value="history" className="flex-1">History</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
         
-        <form onSubmit={handleSubmit} className="space-y-4 pt-4">
+        {/* The form stays mounted while other tabs are open so unsaved edits survive */}
+        <form onSubmit={handleSubmit} className={cn("space-y-4 pt-4", activeTab !== "details" && "hidden")}>
+          {/* New from template */}
+          {!isEditing && templates.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <ClipboardList className="h-3.5 w-3.5" />
+                New from template
+              </Label>
+              <Select value={templateId} onValueChange={handleApplyTemplate}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Start from scratch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Task Title */}
           <div className="space-y-2">
             <Label htmlFor="title" className="flex items-center gap-2">
@@ -360,6 +552,17 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
                 </Select>
               )}
             </LockedField>
+            {isEditing && task && canRequestReassignment(currentUser, task) && (
+              pendingReassignment ? (
+                <p className="text-xs text-muted-foreground">
+                  Reassignment to {getUserById(pendingReassignment.suggestedAssigneeId)?.name || "another user"} is waiting for approval
+                </p>
+              ) : (
+                <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setIsReassignmentOpen(true)}>
+                  Request reassignment
+                </Button>
+              )
+            )}
             {!loadingUsers && (!Array.isArray(assignableUsers) || assignableUsers.length === 0) && (
               <p className="text-xs text-muted-foreground mt-1">
                 No users available for assignment
@@ -406,6 +609,193 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
             </LockedField>
           </div>
           
+          {/* Estimate & Remaining Effort */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="estimate">
+                Estimate ({ESTIMATE_UNITS.find(unit => unit.value === estimateUnit)?.label.toLowerCase()})
+              </Label>
+              <Input
+                id="estimate"
+                type="number"
+                min={0}
+                step={estimateUnit === "hours" ? 0.5 : 1}
+                value={estimate}
+                onChange={(e) => setEstimate(e.target.value)}
+                disabled={isEditing && !permissions.canEditEstimate}
+                placeholder="None"
+                className={cn(isEditing && !permissions.canEditEstimate && "bg-muted cursor-not-allowed")}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="remainingEffort">Remaining</Label>
+              <Input
+                id="remainingEffort"
+                type="number"
+                min={0}
+                step={estimateUnit === "hours" ? 0.5 : 1}
+                value={remainingEffort}
+                onChange={(e) => setRemainingEffort(e.target.value)}
+                disabled={isEditing && !permissions.canEditRemainingEffort}
+                placeholder={estimate || "None"}
+                className={cn(isEditing && !permissions.canEditRemainingEffort && "bg-muted cursor-not-allowed")}
+              />
+            </div>
+          </div>
+
+          {/* Priority */}
+          <div className="space-y-2">
+            <Label htmlFor="priority">Priority</Label>
+            <Select
+              value={priority}
+              onValueChange={setPriority}
+              disabled={isEditing && !permissions.canEditPriority}
+            >
+              <SelectTrigger id="priority" className={cn(isEditing && !permissions.canEditPriority && "bg-muted cursor-not-allowed")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(TaskPriority).map(value => (
+                  <SelectItem key={value} value={value}>{formatPriority(value)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Tags */}
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags</Label>
+            <TagInput
+              id="tags"
+              value={tags}
+              onChange={setTags}
+              disabled={isEditing && !permissions.canEditTags}
+            />
+          </div>
+
+          {/* Recurrence */}
+          <div className="space-y-2">
+            <Label htmlFor="recurrence" className="flex items-center gap-2">
+              <Repeat className="h-3.5 w-3.5" />
+              Repeat
+              {isEditing && !permissions.canEditTargetDate && (
+                <span className="text-xs text-muted-foreground">(Creator only)</span>
+              )}
+            </Label>
+            <LockedField 
+              locked={isEditing && !permissions.canEditTargetDate}
+              reason="Only creator can edit the schedule"
+            >
+              <Select 
+                value={recurrence?.frequency || "none"} 
+                onValueChange={handleRecurrenceFrequencyChange}
+                disabled={isEditing && !permissions.canEditTargetDate}
+              >
+                <SelectTrigger id="recurrence">
+                  <SelectValue placeholder="Does not repeat" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Does not repeat</SelectItem>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly on selected days</SelectItem>
+                  <SelectItem value="monthly">Monthly on a day</SelectItem>
+                  <SelectItem value="every_n_days">Every N days</SelectItem>
+                </SelectContent>
+              </Select>
+            </LockedField>
+
+            {recurrence && (!isEditing || permissions.canEditTargetDate) && (
+              <div className="space-y-3 rounded-md border p-3">
+                {recurrence.frequency === "weekly" && (
+                  <div className="flex flex-wrap gap-1">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <Button
+                        key={label}
+                        type="button"
+                        size="sm"
+                        variant={recurrence.weekdays?.includes(day) ? "default" : "outline"}
+                        className="h-7 px-2 text-xs"
+                        onClick={() => toggleRecurrenceWeekday(day)}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+
+                {recurrence.frequency === "monthly" && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Label htmlFor="dayOfMonth" className="whitespace-nowrap">Day of month</Label>
+                    <Input
+                      id="dayOfMonth"
+                      type="number"
+                      min={1}
+                      max={31}
+                      className="w-20"
+                      value={recurrence.dayOfMonth || 1}
+                      onChange={(e) => setRecurrence({ ...recurrence, dayOfMonth: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+                    />
+                  </div>
+                )}
+
+                {recurrence.frequency === "every_n_days" && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Label htmlFor="intervalDays" className="whitespace-nowrap">Every</Label>
+                    <Input
+                      id="intervalDays"
+                      type="number"
+                      min={1}
+                      className="w-20"
+                      value={recurrence.intervalDays || 1}
+                      onChange={(e) => setRecurrence({ ...recurrence, intervalDays: Math.max(1, Number(e.target.value) || 1) })}
+                    />
+                    <span>days</span>
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Label className="whitespace-nowrap">Ends</Label>
+                  <Select value={recurrenceEnd} onValueChange={handleRecurrenceEndChange}>
+                    <SelectTrigger className="w-[120px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="never">Never</SelectItem>
+                      <SelectItem value="after">After</SelectItem>
+                      <SelectItem value="on">On date</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {recurrenceEnd === "after" && (
+                    <>
+                      <Input
+                        type="number"
+                        min={1}
+                        className="w-20"
+                        value={recurrence.endAfterOccurrences || 1}
+                        onChange={(e) => setRecurrence({ ...recurrence, endAfterOccurrences: Math.max(1, Number(e.target.value) || 1) })}
+                      />
+                      <span>occurrences</span>
+                    </>
+                  )}
+                  {recurrenceEnd === "on" && (
+                    <Input
+                      type="date"
+                      className="w-[160px]"
+                      value={recurrence.endDate ? format(new Date(recurrence.endDate), "yyyy-MM-dd") : ""}
+                      onChange={(e) => e.target.value && setRecurrence({ ...recurrence, endDate: new Date(e.target.value).toISOString() })}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+
+            {recurrence && (
+              <p className="text-xs text-muted-foreground">
+                {describeRecurrence(recurrence)}. The next instance is created when this one is completed or its date arrives.
+              </p>
+            )}
+          </div>
+          
           {/* Status */}
           {isEditing && (
             <div className="space-y-2">
@@ -421,7 +811,7 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
               >
                 <Select 
                   value={status} 
-                  onValueChange={(value) => setStatus(value as TaskStatus)}
+                  onValueChange={setStatus}
                   disabled={!permissions.canEditStatus}
                 >
                   <SelectTrigger className={cn(
@@ -430,9 +820,12 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
                     <SelectValue placeholder="Select status" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value={TaskStatus.NOT_STARTED}>Not Started</SelectItem>
-                    <SelectItem value={TaskStatus.IN_PROGRESS}>In Progress</SelectItem>
-                    <SelectItem value={TaskStatus.COMPLETED}>Completed</SelectItem>
+                    {/* Current state plus the transitions the workflow allows for this role */}
+                    {[getWorkflowState(task!.status), ...getAllowedTransitions(task!.status, String(currentUser.role))].map(state => (
+                      <SelectItem key={state.id} value={state.id}>
+                        {state.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </LockedField>
@@ -451,13 +844,15 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
               locked={isEditing && !permissions.canEditRemarks}
               reason="Only assignee or supervisor can edit remarks"
             >
-              <Textarea 
+              <MentionTextarea 
                 id="remarks" 
                 value={remarks} 
-                onChange={(e) => setRemarks(e.target.value)}
+                onChange={setRemarks}
+                mentionableUsers={mentionableUsers}
+                onMention={(user) => setMentionedUserIds(prev => [...prev, user.id])}
                 disabled={isEditing && !permissions.canEditRemarks}
                 rows={2}
-                placeholder="Add any remarks or notes about this task..."
+                placeholder="Add any remarks or notes about this task... Type @ to mention someone"
                 className={cn(
                   isEditing && !permissions.canEditRemarks && "bg-muted cursor-not-allowed"
                 )}
@@ -465,6 +860,136 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
             </LockedField>
           </div>
           
+          {/* Blocked By */}
+          {permissions.canEditDependencies && (
+            <div className="space-y-2">
+              <Label htmlFor="blockedBy">Blocked By</Label>
+              {blockedBy.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {blockedBy.map(blockerId => {
+                    const blocker = availableTasks.find(t => t.id === blockerId);
+                    return (
+                      <Badge key={blockerId} variant="secondary" className="gap-1">
+                        <span className="max-w-[200px] truncate">{blocker?.title || "Unknown task"}</span>
+                        <button
+                          type="button"
+                          onClick={() => setBlockedBy(prev => prev.filter(id => id !== blockerId))}
+                          className="hover:text-destructive"
+                        >
+                          <X className="h-3 w-3" />
+                          <span className="sr-only">Remove blocker</span>
+                        </button>
+                      </Badge>
+                    );
+                  })}
+                </div>
+              )}
+              <Select
+                value=""
+                onValueChange={(value) => setBlockedBy(prev => prev.includes(value) ? prev : [...prev, value])}
+              >
+                <SelectTrigger id="blockedBy">
+                  <SelectValue placeholder="Add a blocking task" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableTasks.filter(t => t.id !== task?.id && !blockedBy.includes(t.id)).length > 0 ? (
+                    availableTasks
+                      .filter(t => t.id !== task?.id && !blockedBy.includes(t.id))
+                      .map(t => (
+                        <SelectItem key={t.id} value={t.id}>
+                          {t.title}
+                        </SelectItem>
+                      ))
+                  ) : (
+                    <SelectItem value="no-tasks" disabled>
+                      No other tasks available
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                This task cannot be started until its blockers are completed.
+              </p>
+            </div>
+          )}
+
+          {/* Subtasks */}
+          {permissions.canEditSubtasks && (
+            <div className="space-y-2">
+              <Label htmlFor="newSubtask">Subtasks</Label>
+              {(subtasks.length > 0 || newSubtasks.length > 0) && (
+                <ul className="space-y-1">
+                  {subtasks.map((subtask, index) => (
+                    <li key={subtask.id} className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm">
+                      <span className={cn("flex-1 truncate", isCompletedStatus(subtask.status) && "line-through text-muted-foreground")}>
+                        {subtask.title}
+                      </span>
+                      <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0"
+                        onClick={() => setSubtasks(prev => moveItem(prev, index, -1))} disabled={index === 0}>
+                        <ArrowUp className="h-3 w-3" />
+                        <span className="sr-only">Move up</span>
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0"
+                        onClick={() => setSubtasks(prev => moveItem(prev, index, 1))} disabled={index === subtasks.length - 1}>
+                        <ArrowDown className="h-3 w-3" />
+                        <span className="sr-only">Move down</span>
+                      </Button>
+                    </li>
+                  ))}
+                  {newSubtasks.map((subtaskTitle, index) => (
+                    <li key={`new-${index}`} className="flex items-center gap-2 rounded-md border border-dashed px-2 py-1 text-sm">
+                      <span className="flex-1 truncate">{subtaskTitle}</span>
+                      <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0"
+                        onClick={() => setNewSubtasks(prev => moveItem(prev, index, -1))} disabled={index === 0}>
+                        <ArrowUp className="h-3 w-3" />
+                        <span className="sr-only">Move up</span>
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0"
+                        onClick={() => setNewSubtasks(prev => moveItem(prev, index, 1))} disabled={index === newSubtasks.length - 1}>
+                        <ArrowDown className="h-3 w-3" />
+                        <span className="sr-only">Move down</span>
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0"
+                        onClick={() => setNewSubtasks(prev => prev.filter((_, i) => i !== index))}>
+                        <X className="h-3 w-3" />
+                        <span className="sr-only">Remove</span>
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  id="newSubtask"
+                  value={newSubtaskTitle}
+                  onChange={(e) => setNewSubtaskTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleAddSubtask();
+                    }
+                  }}
+                  placeholder="Add a subtask..."
+                />
+                <Button type="button" variant="outline" size="icon" onClick={handleAddSubtask} disabled={!newSubtaskTitle.trim()}>
+                  <Plus className="h-4 w-4" />
+                  <span className="sr-only">Add subtask</span>
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Subtasks inherit the assignee and target date of this task.
+              </p>
+            </div>
+          )}
+          
+          {/* Attachments */}
+          <TaskAttachments
+            task={task}
+            pendingFiles={pendingFiles}
+            onPendingFilesChange={setPendingFiles}
+            canUpload={permissions.canUploadAttachments}
+          />
+
           <DialogFooter>
             <Button
               type="button"
@@ -482,6 +1007,26 @@ export function TaskForm({ open, onOpenChange, task, onSuccess }: TaskFormProps)
             </Button>
           </DialogFooter>
         </form>
+
+        {/* Time tracking */}
+        {isEditing && task && activeTab === "details" && <TaskTimeLog task={task} onChange={onSuccess} />}
+
+        {isEditing && task && (
+          <ReassignmentRequestDialog
+            open={isReassignmentOpen}
+            onOpenChange={setIsReassignmentOpen}
+            task={task}
+            onRequested={setPendingReassignment}
+          />
+        )}
+
+        {/* Comments */}
+        {isEditing && task && activeTab === "comments" && (
+          <TaskComments task={{ ...task, watchers: watcherIds }} onWatchersChange={setWatcherIds} />
+        )}
+
+        {/* History */}
+        {isEditing && task && activeTab === "history" && <TaskHistory task={task} />}
       </DialogContent>
     </Dialog>
   );
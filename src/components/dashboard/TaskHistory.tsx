@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ArrowRightLeft, CheckCircle, CircleCheck, CircleX, History, MessageSquareShare, Pencil, RotateCcw, ThumbsDown, ThumbsUp } from "lucide-react";
+import { Task, TaskHistoryEntry, TaskHistoryEvent } from "@/lib/types";
+import { getTaskHistory, getUserById } from "@/lib/dataService.ts";
+import { describeHistoryEntry } from "@/lib/taskHistory";
+import { getInitials } from "@/lib/utils";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+
+interface TaskHistoryProps {
+  task: Task;
+}
+
+const EVENT_ICONS: Record<TaskHistoryEvent, typeof Pencil> = {
+  updated: Pencil,
+  reassigned: ArrowRightLeft,
+  completed: CheckCircle,
+  reopened: RotateCcw,
+  reassignment_requested: MessageSquareShare,
+  reassignment_approved: ThumbsUp,
+  reassignment_rejected: ThumbsDown,
+  assignment_accepted: CircleCheck,
+  assignment_declined: CircleX
+};
+
+const resolveUserName = (id: string) => getUserById(id)?.name || 'Unknown User';
+
+export function TaskHistory({ task }: TaskHistoryProps) {
+  const [entries, setEntries] = useState<TaskHistoryEntry[]>(task.history || []);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      try {
+        setEntries(await getTaskHistory(task.id));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [task.id]);
+
+  // Newest first
+  const timeline = [...entries].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+
+  if (loading && entries.length === 0) {
+    return <p className="py-4 text-xs text-muted-foreground">Loading history...</p>;
+  }
+
+  if (timeline.length === 0) {
+    return (
+      <div className="flex flex-col items-center py-8 text-center text-sm text-muted-foreground">
+        <History className="h-6 w-6 mb-2" />
+        No changes recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l pl-5 pt-2">
+      {timeline.map((entry, index) => {
+        const actor = getUserById(entry.actorId);
+        const Icon = EVENT_ICONS[entry.event] || Pencil;
+        return (
+          <li key={entry.id || `${entry.timestamp}-${entry.field}-${index}`} className="relative">
+            <span className="absolute -left-[29px] flex h-4 w-4 items-center justify-center rounded-full bg-background border">
+              <Icon className="h-2.5 w-2.5 text-muted-foreground" />
+            </span>
+            <div className="flex items-start gap-2">
+              <Avatar className="h-6 w-6 text-[10px]">
+                <AvatarImage src={actor?.avatarUrl} alt={actor?.name} className="object-cover" />
+                <AvatarFallback className="bg-primary text-primary-foreground">
+                  {getInitials(actor?.name || "?")}
+                </AvatarFallback>
+              </Avatar>
+              <div className="text-sm">
+                <p>
+                  <span className="font-medium">{actor?.name || "Unknown User"}</span>{" "}
+                  {describeHistoryEntry(entry, resolveUserName)}
+                </p>
+                {entry.note && (
+                  <p className="text-muted-foreground italic">"{entry.note}"</p>
+                )}
+                <p className="text-xs text-muted-foreground" title={format(parseISO(entry.timestamp), "PPpp")}>
+                  {formatDistanceToNow(parseISO(entry.timestamp), { addSuffix: true })}
+                </p>
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,112 @@
+import { useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, Search } from "lucide-react";
+import { getQuerySuggestions, parseTaskQuery, QueryContext, QuerySuggestions } from "@/lib/taskQuery";
+import { cn } from "@/lib/utils";
+
+interface TaskQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  context: QueryContext;
+  tags: string[];
+}
+
+// Search box that understands key:value filters such as `assignee:me due:<7d`
+export function TaskQueryInput({ value, onChange, context, tags }: TaskQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [suggestions, setSuggestions] = useState<QuerySuggestions | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  const { errors } = parseTaskQuery(value);
+  const items = suggestions?.items || [];
+
+  const updateSuggestions = (text: string, caret: number) => {
+    setSuggestions(getQuerySuggestions(text, caret, context, tags));
+    setHighlightedIndex(0);
+  };
+
+  const applySuggestion = (index: number) => {
+    const input = inputRef.current;
+    if (!suggestions || !input) return;
+
+    const insert = suggestions.items[index].insert;
+    const text = value.slice(0, suggestions.start) + insert + value.slice(suggestions.end);
+    const caret = suggestions.start + insert.length;
+    onChange(text);
+
+    // Restore the caret and offer values straight after a key is completed
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(caret, caret);
+      updateSuggestions(text, caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (items.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev + 1) % items.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev - 1 + items.length) % items.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      applySuggestion(highlightedIndex);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setSuggestions(null);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          ref={inputRef}
+          placeholder="Search tasks, or filter with assignee:me priority:high due:<7d..."
+          className={cn("pl-9", errors.length > 0 && "border-destructive focus-visible:ring-destructive")}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateSuggestions(e.target.value, e.target.selectionStart ?? e.target.value.length);
+          }}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateSuggestions(value, e.currentTarget.selectionStart ?? value.length)}
+          onBlur={() => setSuggestions(null)}
+        />
+        {items.length > 0 && (
+          <ul className="absolute z-50 mt-1 w-full max-w-[360px] rounded-md border bg-popover p-1 shadow-md">
+            {items.map((item, index) => (
+              <li
+                key={item.insert}
+                // Keep focus in the input so onBlur doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applySuggestion(index);
+                }}
+                onMouseEnter={() => setHighlightedIndex(index)}
+                className={cn(
+                  "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1 text-sm",
+                  index === highlightedIndex && "bg-accent text-accent-foreground"
+                )}
+              >
+                <span className="font-mono">{item.label}</span>
+                {item.description && (
+                  <span className="ml-auto truncate text-xs text-muted-foreground">{item.description}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {errors.map(error => (
+        <p key={error.token} className="flex items-center gap-1 text-xs text-destructive">
+          <AlertCircle className="h-3 w-3" />
+          {error.message}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, Pencil, Timer, Trash2, X } from "lucide-react";
+import { Task, TimeEntry } from "@/lib/types";
+import { deleteTimeEntry, getCurrentUser, getUserById, logTaskTime, updateTimeEntry } from "@/lib/dataService.ts";
+import { calculatePermissions } from "@/lib/taskPermissions";
+import {
+  canModifyTimeEntry,
+  formatDuration,
+  getEntryMinutes,
+  getEntryUserId,
+  parseDuration
+} from "@/lib/timeTracking";
+import { formatDate } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface TaskTimeLogProps {
+  task: Task;
+  onChange?: () => void;
+}
+
+export function TaskTimeLog({ task, onChange }: TaskTimeLogProps) {
+  const [entries, setEntries] = useState<TimeEntry[]>(task.timeEntries || []);
+  const [duration, setDuration] = useState("");
+  const [note, setNote] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDuration, setEditDuration] = useState("");
+  const [editNote, setEditNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const currentUser = getCurrentUser();
+  const canLogTime = calculatePermissions(currentUser, task).canLogTime;
+
+  useEffect(() => {
+    setEntries(task.timeEntries || []);
+  }, [task]);
+
+  const totalMinutes = entries.reduce((total, entry) => total + getEntryMinutes(entry), 0);
+  const sortedEntries = [...entries].sort(
+    (a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
+  );
+
+  const handleLog = async () => {
+    const minutes = parseDuration(duration);
+    if (!minutes) {
+      toast.error('Enter a duration such as "45m", "1h 30m" or "1.5h"');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const entry = await logTaskTime(task.id, {
+        startedAt: new Date(Date.now() - minutes * 60000).toISOString(),
+        durationMinutes: minutes,
+        note: note.trim() || undefined
+      });
+      if (entry) {
+        setEntries(prev => [...prev, entry]);
+        setDuration("");
+        setNote("");
+        onChange?.();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSaveEdit = async (entry: TimeEntry) => {
+    const minutes = entry.endedAt ? parseDuration(editDuration) : entry.durationMinutes;
+    if (!minutes && entry.endedAt) {
+      toast.error('Enter a duration such as "45m", "1h 30m" or "1.5h"');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const updated = await updateTimeEntry(task.id, entry.id, {
+        durationMinutes: minutes,
+        note: editNote.trim()
+      });
+      if (updated) {
+        setEntries(prev => prev.map(e => e.id === entry.id ? { ...e, ...updated } : e));
+        setEditingId(null);
+        onChange?.();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (entry: TimeEntry) => {
+    if (!confirm("Delete this time entry?")) return;
+
+    const deleted = await deleteTimeEntry(task.id, entry.id);
+    if (deleted) {
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+      onChange?.();
+    }
+  };
+
+  if (!canLogTime && entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <h4 className="flex items-center gap-2 text-sm font-medium">
+        <Timer className="h-4 w-4" />
+        Time Logged
+        <span className="text-muted-foreground font-normal">({formatDuration(totalMinutes)})</span>
+      </h4>
+
+      {sortedEntries.length > 0 && (
+        <ul className="space-y-1">
+          {sortedEntries.map(entry => {
+            const user = getUserById(getEntryUserId(entry));
+            const isEditingThis = editingId === entry.id;
+            return (
+              <li key={entry.id} className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm">
+                {isEditingThis ? (
+                  <>
+                    <Input
+                      value={editDuration}
+                      onChange={(e) => setEditDuration(e.target.value)}
+                      disabled={!entry.endedAt}
+                      className="h-7 w-20"
+                    />
+                    <Input
+                      value={editNote}
+                      onChange={(e) => setEditNote(e.target.value)}
+                      placeholder="Note"
+                      className="h-7 flex-1"
+                    />
+                    <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleSaveEdit(entry)} disabled={isSubmitting}>
+                      <Check className="h-3 w-3" />
+                      <span className="sr-only">Save</span>
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setEditingId(null)}>
+                      <X className="h-3 w-3" />
+                      <span className="sr-only">Cancel</span>
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="w-16 font-medium tabular-nums">
+                      {entry.endedAt ? formatDuration(entry.durationMinutes) : "Running"}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate">{entry.note || (entry.manual ? "Manual entry" : "Timer")}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {user?.name || "Unknown User"} · {formatDate(entry.startedAt)}
+                      </p>
+                    </div>
+                    {canModifyTimeEntry(currentUser, entry) && (
+                      <>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={() => {
+                            setEditingId(entry.id);
+                            setEditDuration(formatDuration(entry.durationMinutes));
+                            setEditNote(entry.note || "");
+                          }}
+                        >
+                          <Pencil className="h-3 w-3" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0 hover:text-destructive" onClick={() => handleDelete(entry)}>
+                          <Trash2 className="h-3 w-3" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </>
+                    )}
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canLogTime && (
+        <div className="flex gap-2">
+          <Input
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+            placeholder="1h 30m"
+            className="w-24"
+          />
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleLog();
+              }
+            }}
+            placeholder="What did you work on?"
+            className="flex-1"
+          />
+          <Button type="button" variant="outline" onClick={handleLog} disabled={isSubmitting || !duration.trim()}>
+            Log
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
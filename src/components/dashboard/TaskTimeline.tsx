@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { differenceInCalendarDays, startOfDay } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Task, User } from "@/lib/types";
+import { getUserById, updateTask } from "@/lib/dataService.ts";
+import { calculatePermissions } from "@/lib/taskPermissions";
+import { isOverdue } from "@/lib/taskFilters";
+import { getTaskColor } from "@/lib/taskCalendar";
+import {
+  applyTimelineDrag,
+  getDayWidth,
+  getTaskSpan,
+  getTimelineHeaders,
+  getTimelineRange,
+  groupTimelineTasks,
+  TIMELINE_ZOOMS,
+  TimelineDragEdge,
+  TimelineGroupBy,
+  TimelineZoom
+} from "@/lib/taskTimeline";
+import { cn, formatDate } from "@/lib/utils";
+
+interface TaskTimelineProps {
+  tasks: Task[];
+  currentUser: User;
+  onEdit?: (task: Task) => void;
+  refetch?: () => void;
+}
+
+interface TimelineDrag {
+  taskId: string;
+  edge: TimelineDragEdge;
+  originX: number;
+  days: number;
+}
+
+const TIMELINE_ZOOM_STORAGE_KEY = 'tasksTimelineZoom';
+const TIMELINE_GROUP_STORAGE_KEY = 'tasksTimelineGroupBy';
+
+export function TaskTimeline({ tasks, currentUser, onEdit, refetch }: TaskTimelineProps) {
+  const [zoom, setZoom] = useState<TimelineZoom>(
+    () => (localStorage.getItem(TIMELINE_ZOOM_STORAGE_KEY) as TimelineZoom) || 'week'
+  );
+  const [groupBy, setGroupBy] = useState<TimelineGroupBy>(
+    () => (localStorage.getItem(TIMELINE_GROUP_STORAGE_KEY) as TimelineGroupBy) || 'assignee'
+  );
+  const [drag, setDrag] = useState<TimelineDrag | null>(null);
+  const [updatingTaskId, setUpdatingTaskId] = useState<string | null>(null);
+
+  const datedTasks = tasks.filter(task => task.targetDate);
+  const today = startOfDay(new Date());
+  const range = getTimelineRange(datedTasks, today);
+  const dayWidth = getDayWidth(zoom);
+  const headers = getTimelineHeaders(range, zoom);
+  const groups = groupTimelineTasks(datedTasks, groupBy, getUserById);
+  const todayOffset = differenceInCalendarDays(today, range.start) * dayWidth;
+  const trackWidth = range.days * dayWidth;
+
+  const handleZoomChange = (value: TimelineZoom) => {
+    setZoom(value);
+    localStorage.setItem(TIMELINE_ZOOM_STORAGE_KEY, value);
+  };
+
+  const handleGroupByChange = (value: string) => {
+    setGroupBy(value as TimelineGroupBy);
+    localStorage.setItem(TIMELINE_GROUP_STORAGE_KEY, value);
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLElement>, task: Task, edge: TimelineDragEdge) => {
+    if (e.button !== 0 || updatingTaskId) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ taskId: task.id, edge, originX: e.clientX, days: 0 });
+  };
+
+  const moveDrag = (e: React.PointerEvent<HTMLElement>) => {
+    if (!drag) return;
+    const days = Math.round((e.clientX - drag.originX) / dayWidth);
+    if (days !== drag.days) setDrag({ ...drag, days });
+  };
+
+  const endDrag = async (task: Task) => {
+    if (!drag) return;
+    const { edge, days } = drag;
+    setDrag(null);
+
+    // A press on the bar that didn't move it opens the task instead
+    if (days === 0) {
+      if (edge === 'move') onEdit?.(task);
+      return;
+    }
+
+    setUpdatingTaskId(task.id);
+    try {
+      await updateTask({ ...task, ...applyTimelineDrag(task, edge, days), subtasks: undefined }, task);
+      if (refetch) refetch();
+    } catch (error) {
+      // updateTask has already reported the failure
+      console.error('Error rescheduling task:', error);
+    } finally {
+      setUpdatingTaskId(null);
+    }
+  };
+
+  const renderBar = (task: Task) => {
+    // Preview the dragged dates until the change is saved
+    const previewTask = drag?.taskId === task.id ? { ...task, ...applyTimelineDrag(task, drag.edge, drag.days) } : task;
+    const { start, end } = getTaskSpan(previewTask);
+    const left = differenceInCalendarDays(start, range.start) * dayWidth;
+    const width = Math.max(1, differenceInCalendarDays(end, start) + 1) * dayWidth;
+    const overdue = isOverdue(task);
+    const color = overdue ? '#ef4444' : getTaskColor(task, 'status');
+    // Assigned and target dates are scheduled by the same people
+    const canReschedule = calculatePermissions(currentUser, task).canEditTargetDate;
+
+    const handleClass = "absolute top-0 h-full w-2 cursor-ew-resize rounded bg-black/10 opacity-0 group-hover:opacity-100";
+
+    return (
+      <div
+        title={`${task.title}\n${formatDate(previewTask.assignedDate)} - ${formatDate(previewTask.targetDate)}${overdue ? "\nOverdue" : ""}`}
+        className={cn(
+          "group absolute top-1.5 flex h-6 items-center rounded border px-2 text-xs font-medium select-none",
+          canReschedule ? "cursor-grab active:cursor-grabbing" : "cursor-pointer",
+          overdue && "ring-2 ring-red-300",
+          updatingTaskId === task.id && "opacity-50"
+        )}
+        style={{ left, width, backgroundColor: `${color}33`, borderColor: color, color }}
+        onPointerDown={(e) => canReschedule ? startDrag(e, task, 'move') : undefined}
+        onPointerMove={moveDrag}
+        onPointerUp={() => endDrag(task)}
+        onClick={() => !canReschedule && onEdit?.(task)}
+      >
+        {canReschedule && (
+          <span
+            className={cn(handleClass, "left-0")}
+            onPointerDown={(e) => startDrag(e, task, 'start')}
+            onPointerMove={moveDrag}
+            onPointerUp={(e) => {
+              e.stopPropagation();
+              endDrag(task);
+            }}
+          />
+        )}
+        <span className="truncate">{task.title}</span>
+        {canReschedule && (
+          <span
+            className={cn(handleClass, "right-0")}
+            onPointerDown={(e) => startDrag(e, task, 'end')}
+            onPointerMove={moveDrag}
+            onPointerUp={(e) => {
+              e.stopPropagation();
+              endDrag(task);
+            }}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <Select value={groupBy} onValueChange={handleGroupByChange}>
+          <SelectTrigger className="w-full md:w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="assignee">By assignee</SelectItem>
+            <SelectItem value="team">By supervisor team</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex rounded-md border">
+          {TIMELINE_ZOOMS.map((option, index) => (
+            <Button
+              key={option.value}
+              variant={zoom === option.value ? 'secondary' : 'ghost'}
+              size="sm"
+              className={cn(
+                index > 0 && "rounded-l-none",
+                index < TIMELINE_ZOOMS.length - 1 && "rounded-r-none"
+              )}
+              onClick={() => handleZoomChange(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {datedTasks.length > 0 ? (
+        <div className="overflow-x-auto rounded-lg border">
+          <div style={{ width: trackWidth + 224 }}>
+            {/* Period headings */}
+            <div className="flex border-b bg-muted/30">
+              <div className="sticky left-0 z-20 w-56 shrink-0 border-r bg-muted px-3 py-2 text-xs font-medium text-muted-foreground">
+                Task
+              </div>
+              <div className="relative h-8" style={{ width: trackWidth }}>
+                {headers.map(header => (
+                  <div
+                    key={header.key}
+                    className="absolute top-0 h-full truncate border-l px-1 py-2 text-xs text-muted-foreground"
+                    style={{ left: header.offsetDays * dayWidth, width: header.days * dayWidth }}
+                  >
+                    {header.label}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {groups.map(group => (
+              <div key={group.key}>
+                <div className="sticky left-0 w-56 border-b border-r bg-background px-3 py-1.5 text-sm font-semibold">
+                  {group.label} <span className="font-normal text-muted-foreground">({group.tasks.length})</span>
+                </div>
+                {group.tasks.map(task => (
+                  <div key={task.id} className="flex border-b">
+                    <button
+                      type="button"
+                      className={cn(
+                        "sticky left-0 z-10 w-56 shrink-0 truncate border-r bg-background px-3 py-2 text-left text-sm hover:underline",
+                        isOverdue(task) && "text-red-600"
+                      )}
+                      onClick={() => onEdit?.(task)}
+                    >
+                      {task.title}
+                    </button>
+                    <div className="relative h-9" style={{ width: trackWidth }}>
+                      <div
+                        className="absolute top-0 z-[5] h-full w-0.5 bg-primary/60"
+                        style={{ left: todayOffset + dayWidth / 2 }}
+                        title="Today"
+                      />
+                      {renderBar(task)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="py-12 text-center text-sm text-muted-foreground">No tasks with dates to show</p>
+      )}
+    </div>
+  );
+}
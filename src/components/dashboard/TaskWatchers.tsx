@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Eye, EyeOff } from "lucide-react";
+import { toast } from "sonner";
+import { Task } from "@/lib/types";
+import { followTask, getCurrentUser, getUserById, unfollowTask } from "@/lib/dataService.ts";
+import { getInitials } from "@/lib/utils";
+
+interface TaskWatchersProps {
+  task: Task;
+  watcherIds: string[];
+  onChange: (watcherIds: string[]) => void;
+}
+
+// Avatars shown before the rest collapse into "+N"
+const MAX_VISIBLE_WATCHERS = 5;
+
+export function TaskWatchers({ task, watcherIds, onChange }: TaskWatchersProps) {
+  const [isWorking, setIsWorking] = useState(false);
+
+  const currentUser = getCurrentUser();
+  const isFollowing = watcherIds.includes(currentUser.id);
+  const watchers = watcherIds.map(id => getUserById(id)).filter(Boolean);
+  const hiddenCount = watchers.length - MAX_VISIBLE_WATCHERS;
+
+  const handleToggle = async () => {
+    setIsWorking(true);
+    try {
+      const updatedWatcherIds = isFollowing ? await unfollowTask(task.id) : await followTask(task.id);
+      if (updatedWatcherIds) {
+        onChange(updatedWatcherIds);
+        toast.success(isFollowing ? "You no longer follow this task" : "You are now following this task");
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Watchers</span>
+        {watchers.length > 0 ? (
+          <div className="flex -space-x-2">
+            {watchers.slice(0, MAX_VISIBLE_WATCHERS).map(user => (
+              <Avatar key={user.id} className="h-7 w-7 border-2 border-background text-xs" title={user.name}>
+                <AvatarImage src={user.avatarUrl} alt={user.name} className="object-cover" />
+                <AvatarFallback className="bg-primary text-primary-foreground">
+                  {getInitials(user.name)}
+                </AvatarFallback>
+              </Avatar>
+            ))}
+            {hiddenCount > 0 && (
+              <span
+                className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background bg-muted text-xs"
+                title={watchers.slice(MAX_VISIBLE_WATCHERS).map(user => user.name).join(", ")}
+              >
+                +{hiddenCount}
+              </span>
+            )}
+          </div>
+        ) : (
+          <span className="text-sm text-muted-foreground">None</span>
+        )}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={handleToggle} disabled={isWorking}>
+        {isFollowing ? <EyeOff className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
+        {isFollowing ? "Unfollow" : "Follow"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Hourglass } from "lucide-react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Task } from "@/lib/types";
+import { getUserById, saveAcceptanceThreshold } from "@/lib/dataService.ts";
+import { getAssigneeId } from "@/lib/taskFilters";
+import {
+  ACCEPTANCE_THRESHOLDS,
+  getAcceptanceThresholdHours,
+  getUnacknowledgedAssignments
+} from "@/lib/acceptance";
+
+interface UnacknowledgedAssignmentsProps {
+  tasks: Task[];
+  onEdit?: (task: Task) => void;
+}
+
+// Assignments their assignees have left unanswered for longer than the chosen threshold
+export function UnacknowledgedAssignments({ tasks, onEdit }: UnacknowledgedAssignmentsProps) {
+  const [thresholdHours, setThresholdHours] = useState(getAcceptanceThresholdHours);
+
+  const unacknowledgedTasks = getUnacknowledgedAssignments(tasks, thresholdHours);
+
+  const handleThresholdChange = async (value: string) => {
+    const previousHours = thresholdHours;
+    setThresholdHours(Number(value));
+    if (!(await saveAcceptanceThreshold(Number(value)))) {
+      setThresholdHours(previousHours);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-2 pb-3 md:flex-row md:items-center md:justify-between md:space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Hourglass className="h-5 w-5" />
+            Unacknowledged Assignments ({unacknowledgedTasks.length})
+          </CardTitle>
+          <CardDescription>Tasks whose assignee has not accepted or declined them</CardDescription>
+        </div>
+        <Select value={String(thresholdHours)} onValueChange={handleThresholdChange}>
+          <SelectTrigger className="w-full md:w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ACCEPTANCE_THRESHOLDS.map(option => (
+              <SelectItem key={option.value} value={String(option.value)}>
+                Older than {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {unacknowledgedTasks.length > 0 ? (
+          <ul className="divide-y">
+            {unacknowledgedTasks.map(task => (
+              <li key={task.id} className="flex items-center justify-between gap-2 py-2">
+                <button type="button" className="truncate text-left text-sm font-medium hover:underline" onClick={() => onEdit?.(task)}>
+                  {task.title}
+                </button>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {getUserById(getAssigneeId(task))?.name || "Unknown User"}, assigned {formatDistanceToNow(parseISO(task.acceptance.assignedAt), { addSuffix: true })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">Every assignment has been answered within this time.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback } from "react";
 import { Outlet, useLocation, Navigate } from "react-router-dom";
 import { Sidebar } from "./Sidebar";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -10,6 +10,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Menu } from "lucide-react";
 import { User } from "@/lib/types";
+import { fetchAcceptanceThreshold, fetchEscalationConfig, fetchEstimateUnit, fetchTagCatalog, fetchWorkflowConfig, runTaskSweeps } from "@/lib/dataService.ts";
 
 export function AppLayout() {
   const isMobile = useIsMobile();
@@ -18,6 +19,7 @@ export function AppLayout() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const location = useLocation();
+  const sweptUserIdRef = useRef<string | null>(null);
 
   // Close mobile drawer when route changes
   useEffect(() => {
@@ -99,6 +101,25 @@ export function AppLayout() {
     loadCurrentUser();
   }, [loadCurrentUser]);
 
+  // Refresh the task workflow, tag catalogue, estimate unit and acceptance threshold once the user is known
+  useEffect(() => {
+    if (currentUser?.id) {
+      fetchWorkflowConfig();
+      fetchTagCatalog();
+      fetchEstimateUnit();
+      fetchAcceptanceThreshold();
+    }
+  }, [currentUser?.id]);
+
+  // Roll over recurring tasks and escalate overdue ones in the background, with the
+  // latest escalation rules, once per signed-in user so no page waits on the sweep
+  useEffect(() => {
+    if (currentUser?.id && sweptUserIdRef.current !== currentUser.id) {
+      sweptUserIdRef.current = currentUser.id;
+      fetchEscalationConfig().then(() => runTaskSweeps(currentUser));
+    }
+  }, [currentUser]);
+
   // Debug logging with more detail
   useEffect(() => {
     console.log('=== AppLayout State Update ===');
@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { addDays, format, parseISO } from "date-fns";
+import { Task, TaskHistoryEntry } from "@/lib/types";
+import { getTaskHistory, getUserById } from "@/lib/dataService.ts";
+import { buildBurndownSeries } from "@/lib/burndown";
+import { ESTIMATE_UNITS, getEstimateUnit } from "@/lib/estimates";
+
+interface BurndownChartProps {
+  tasks: Task[]; // Flat list; subtasks are included as separate tasks
+}
+
+export function BurndownChart({ tasks }: BurndownChartProps) {
+  const [startDate, setStartDate] = useState(() => format(addDays(new Date(), -14), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(() => format(addDays(new Date(), 14), 'yyyy-MM-dd'));
+  const [assigneeFilter, setAssigneeFilter] = useState("all");
+  const [tagFilter, setTagFilter] = useState("all");
+  const [historyByTask, setHistoryByTask] = useState<Record<string, TaskHistoryEntry[]>>({});
+
+  const unit = ESTIMATE_UNITS.find(u => u.value === getEstimateUnit());
+
+  const assigneeIds = useMemo(
+    () => Array.from(new Set(tasks.map(task => task.assigneeId).filter(Boolean))),
+    [tasks]
+  );
+  const tags = useMemo(
+    () => Array.from(new Set(tasks.flatMap(task => task.tags || []))).sort(),
+    [tasks]
+  );
+
+  // Only estimated tasks contribute to a burndown
+  const estimatedTasks = useMemo(
+    () => tasks.filter(task => task.estimate != null || task.remainingEffort != null),
+    [tasks]
+  );
+
+  // Past remaining effort is replayed from each task's history
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(estimatedTasks.map(task => getTaskHistory(task.id).then(history => [task.id, history] as const)))
+      .then(entries => {
+        if (!cancelled) setHistoryByTask(Object.fromEntries(entries));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [estimatedTasks]);
+
+  const filteredTasks = useMemo(() => estimatedTasks.filter(task =>
+    (assigneeFilter === "all" || task.assigneeId === assigneeFilter) &&
+    (tagFilter === "all" || (task.tags || []).includes(tagFilter))
+  ), [estimatedTasks, assigneeFilter, tagFilter]);
+
+  const chartData = useMemo(() => {
+    if (!startDate || !endDate) return [];
+    const { ideal, actual } = buildBurndownSeries(filteredTasks, parseISO(startDate), parseISO(endDate), historyByTask);
+    return ideal.map(point => ({
+      label: point.label,
+      ideal: point.value,
+      actual: actual.find(a => a.date === point.date)?.value
+    }));
+  }, [filteredTasks, startDate, endDate, historyByTask]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-1">
+          <Label htmlFor="burndown-start">From</Label>
+          <Input id="burndown-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="burndown-end">To</Label>
+          <Input id="burndown-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>Assignee</Label>
+          <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All assignees</SelectItem>
+              {assigneeIds.map(id => (
+                <SelectItem key={id} value={id}>{getUserById(id)?.name || 'Unknown'}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Tag</Label>
+          <Select value={tagFilter} onValueChange={setTagFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All tags</SelectItem>
+              {tags.map(tag => (
+                <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {filteredTasks.length > 0 && chartData.length > 0 ? (
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" />
+            <YAxis label={{ value: unit?.label, angle: -90, position: 'insideLeft' }} />
+            <Tooltip />
+            <Legend />
+            <Line type="linear" dataKey="ideal" name="Ideal" stroke="#9ca3af" strokeDasharray="5 5" dot={false} />
+            <Line type="monotone" dataKey="actual" name="Actual" stroke="#2196f3" connectNulls={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      ) : (
+        <p className="py-12 text-center text-sm text-muted-foreground">
+          No estimated tasks match these filters
+        </p>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { generateReport } from "@/lib/dataService.ts";
+import { Task } from "@/lib/types";
 import { format } from "date-fns";
 import { useIsMobile } from "@/hooks/use-mobile";
 
@@ -13,22 +14,24 @@ interface ReportFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess?: () => void;
+  tasks: Task[]; // The tasks the report covers
 }
 
-export function ReportForm({ open, onOpenChange, onSuccess }: ReportFormProps) {
+export function ReportForm({ open, onOpenChange, onSuccess, tasks }: ReportFormProps) {
   const [title, setTitle] = useState("");
   const [type, setType] = useState<'daily' | 'weekly' | 'monthly'>('daily');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const isMobile = useIsMobile();
   
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!title) return;
     
     setIsSubmitting(true);
     
     try {
-      generateReport(title, type);
+      const report = await generateReport(title, type, tasks);
+      if (!report) return;
       
       if (onSuccess) onSuccess();
       onOpenChange(false);
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarClock, Copy, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { CalendarFeed } from "@/lib/types";
+import { getCalendarFeed, regenerateCalendarFeed, revokeCalendarFeed } from "@/lib/dataService.ts";
+import { formatDate } from "@/lib/utils";
+
+export const CalendarFeedSettings = () => {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    getCalendarFeed()
+      .then(setFeed)
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleGenerate = async () => {
+    if (feed && !confirm("Create a new feed URL? Calendars subscribed to the current URL will stop updating.")) return;
+
+    setIsWorking(true);
+    try {
+      const newFeed = await regenerateCalendarFeed();
+      if (newFeed) setFeed(newFeed);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm("Revoke your feed URL? Calendars subscribed to it will stop updating.")) return;
+
+    setIsWorking(true);
+    try {
+      if (await revokeCalendarFeed()) setFeed(null);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success("Feed URL copied");
+    } catch (error) {
+      console.error("Error copying feed URL:", error);
+      toast.error("Could not copy the feed URL");
+    }
+  };
+
+  return (
+    <Card className="animate-slide-up">
+      <CardHeader>
+        <CardTitle>
+          <div className="flex items-center">
+            <CalendarClock className="mr-2 h-5 w-5" />
+            Calendar Feed
+          </div>
+        </CardTitle>
+        <CardDescription>
+          Subscribe to your assigned tasks from Google Calendar, Outlook or Apple Calendar. Tasks appear on their target dates with their status, priority and description
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : feed ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="calendar-feed-url">Feed URL</Label>
+              <div className="flex gap-2">
+                <Input id="calendar-feed-url" value={feed.url} readOnly onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={handleCopy}>
+                  <Copy className="h-4 w-4" />
+                  <span className="sr-only">Copy feed URL</span>
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Created {formatDate(feed.createdAt)}. Anyone with this URL can see your tasks, so keep it private
+              </p>
+            </div>
+            <div className="flex justify-between">
+              <Button variant="outline" className="hover:text-destructive" onClick={handleRevoke} disabled={isWorking}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Revoke
+              </Button>
+              <Button variant="outline" onClick={handleGenerate} disabled={isWorking}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Regenerate URL
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={handleGenerate} disabled={isWorking}>
+            {isWorking ? "Creating..." : "Create Feed URL"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
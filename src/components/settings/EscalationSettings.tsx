@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { EscalationConfig, EscalationLevel, TaskPriority } from "@/lib/types";
+import { saveEscalationConfig } from "@/lib/dataService.ts";
+import { DEFAULT_ESCALATION_CONFIG, ESCALATION_LEVELS, getEscalationConfig, validateEscalationConfig } from "@/lib/escalation";
+import { formatPriority } from "@/lib/utils";
+
+// Hours typed per priority and level; blank means that level is never notified
+type EscalationDraft = Record<string, Record<EscalationLevel, string>>;
+
+const toDraft = (config: EscalationConfig): EscalationDraft =>
+  Object.fromEntries(Object.values(TaskPriority).map(priority => {
+    const steps = config.rules.find(rule => rule.priority === priority)?.steps || [];
+    const hoursFor = (level: EscalationLevel) => {
+      const step = steps.find(s => s.level === level);
+      return step ? String(step.afterHours) : "";
+    };
+    return [priority, { supervisor: hoursFor('supervisor'), manager: hoursFor('manager') }];
+  }));
+
+const toConfig = (draft: EscalationDraft): EscalationConfig => ({
+  rules: Object.entries(draft).map(([priority, hours]) => ({
+    priority,
+    steps: ESCALATION_LEVELS
+      .filter(level => hours[level.value].trim())
+      .map(level => ({ level: level.value, afterHours: Number(hours[level.value]) }))
+  })),
+  updatedAt: new Date().toISOString()
+});
+
+export const EscalationSettings = () => {
+  const [draft, setDraft] = useState<EscalationDraft>(() => toDraft(getEscalationConfig()));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateHours = (priority: string, level: EscalationLevel, value: string) => {
+    setDraft(prev => ({ ...prev, [priority]: { ...prev[priority], [level]: value } }));
+  };
+
+  const handleReset = () => {
+    if (!confirm("Reset escalation to the default rules?")) return;
+    setDraft(toDraft(DEFAULT_ESCALATION_CONFIG));
+  };
+
+  const handleSave = async () => {
+    const config = toConfig(draft);
+    const validation = validateEscalationConfig(config);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveEscalationConfig(config);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="animate-slide-up">
+      <CardHeader>
+        <CardTitle>
+          <div className="flex items-center">
+            <AlertTriangle className="mr-2 h-5 w-5" />
+            Overdue Escalation
+          </div>
+        </CardTitle>
+        <CardDescription>
+          Notify the assignee's supervisor and manager once a task has been overdue for this many hours. Leave a level blank to skip it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Priority</TableHead>
+              {ESCALATION_LEVELS.map(level => (
+                <TableHead key={level.value}>{level.label} after (hours)</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {Object.values(TaskPriority).map(priority => (
+              <TableRow key={priority}>
+                <TableCell className="font-medium">{formatPriority(priority)}</TableCell>
+                {ESCALATION_LEVELS.map(level => (
+                  <TableCell key={level.value}>
+                    <Input
+                      type="number"
+                      min="0"
+                      className="w-[120px]"
+                      value={draft[priority][level.value]}
+                      onChange={(e) => updateHours(priority, level.value, e.target.value)}
+                      placeholder="Off"
+                      aria-label={`${formatPriority(priority)} ${level.label.toLowerCase()} escalation hours`}
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={handleReset} disabled={isSaving}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset to Default
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Rules"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gauge } from "lucide-react";
+import { toast } from "sonner";
+import { EstimateUnit } from "@/lib/types";
+import { ESTIMATE_UNITS, getEstimateUnit } from "@/lib/estimates";
+import { saveEstimateUnit } from "@/lib/dataService.ts";
+
+export const EstimationSettings = () => {
+  const [unit, setUnit] = useState<EstimateUnit>(getEstimateUnit());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleUnitChange = async (value: string) => {
+    const newUnit = value as EstimateUnit;
+    const previousUnit = unit;
+    setUnit(newUnit);
+    setIsSaving(true);
+    try {
+      if (await saveEstimateUnit(newUnit)) {
+        toast.success(`Estimates are now in ${ESTIMATE_UNITS.find(u => u.value === newUnit)?.label.toLowerCase()}`);
+      } else {
+        setUnit(previousUnit);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="animate-slide-up">
+      <CardHeader>
+        <CardTitle>
+          <div className="flex items-center">
+            <Gauge className="mr-2 h-5 w-5" />
+            Estimation
+          </div>
+        </CardTitle>
+        <CardDescription>Choose how task estimates and remaining effort are measured</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="estimate-unit">Estimate unit</Label>
+            <p className="text-sm text-muted-foreground">
+              Existing estimates are not converted when the unit changes
+            </p>
+          </div>
+          <Select value={unit} onValueChange={handleUnitChange} disabled={isSaving}>
+            <SelectTrigger id="estimate-unit" className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ESTIMATE_UNITS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
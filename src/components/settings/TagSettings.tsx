@@ -0,0 +1,304 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GitMerge, Pencil, Plus, Tag, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { TaskTag } from "@/lib/types";
+import { deleteTag, fetchTagCatalog, getAllTasks, replaceTagOnTasks, saveTag } from "@/lib/dataService.ts";
+import { countTagUsage, DEFAULT_TAG_COLOR, findTag, TAG_COLORS, validateTag } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import { TagChip } from "@/components/dashboard/TagChip";
+
+type TagDraft = Omit<TaskTag, 'id'> & { id?: string };
+
+export const TagSettings = () => {
+  const [catalog, setCatalog] = useState<TaskTag[]>([]);
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [draft, setDraft] = useState<TagDraft | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [mergeSources, setMergeSources] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadUsage = async () => {
+    setUsage(countTagUsage(await getAllTasks()));
+  };
+
+  useEffect(() => {
+    fetchTagCatalog().then(setCatalog);
+    loadUsage();
+  }, []);
+
+  // Tag spellings found on tasks, with their usage summed per catalogue tag
+  const usageFor = (tag: TaskTag) => Object.entries(usage)
+    .filter(([name]) => name.toLowerCase() === tag.name.toLowerCase())
+    .reduce((total, [, count]) => total + count, 0);
+  const untrackedTags = Object.keys(usage).filter(name => !findTag(name, catalog)).sort();
+  const mergeTarget = catalog.find(tag => tag.id === mergeTargetId);
+  const mergeCandidates = [
+    ...catalog.filter(tag => tag.id !== mergeTargetId).map(tag => tag.name),
+    ...untrackedTags
+  ];
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const validation = validateTag(draft, catalog);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    const previous = draft.id ? catalog.find(tag => tag.id === draft.id) : undefined;
+    setIsWorking(true);
+    try {
+      const saved = await saveTag({ ...draft, name: draft.name.trim() });
+      if (!saved) return;
+
+      setCatalog(prev => previous ? prev.map(tag => tag.id === saved.id ? saved : tag) : [...prev, saved]);
+      setDraft(null);
+
+      // Renaming rewrites the tag on every task that uses it
+      if (previous && previous.name !== saved.name) {
+        await replaceTagOnTasks([previous.name], saved.name);
+        await loadUsage();
+      } else {
+        toast.success(`Tag "${saved.name}" saved`);
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = async (tag: TaskTag) => {
+    const count = usageFor(tag);
+    const message = count > 0
+      ? `Delete "${tag.name}" from the catalogue? It stays on ${count} task${count === 1 ? "" : "s"}; archive it instead to keep its colour.`
+      : `Delete "${tag.name}"?`;
+    if (!confirm(message)) return;
+
+    if (await deleteTag(tag.id)) {
+      setCatalog(prev => prev.filter(t => t.id !== tag.id));
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeTarget || mergeSources.length === 0) return;
+    if (!confirm(`Merge ${mergeSources.map(name => `"${name}"`).join(", ")} into "${mergeTarget.name}" on every task?`)) return;
+
+    setIsWorking(true);
+    try {
+      await replaceTagOnTasks(mergeSources, mergeTarget.name);
+
+      // Merged catalogue entries are no longer needed
+      const mergedTags = catalog.filter(tag => mergeSources.includes(tag.name));
+      for (const tag of mergedTags) {
+        await deleteTag(tag.id);
+      }
+      setCatalog(prev => prev.filter(tag => !mergedTags.includes(tag)));
+      setMergeSources([]);
+      await loadUsage();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card className="animate-slide-up">
+      <CardHeader>
+        <CardTitle>
+          <div className="flex items-center">
+            <Tag className="mr-2 h-5 w-5" />
+            Tags
+          </div>
+        </CardTitle>
+        <CardDescription>
+          Keep one spelling per tag. The catalogue drives tag colours and suggestions in the task form
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Catalogue */}
+        <div className="space-y-2">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tag</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Tasks</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {catalog.map(tag => (
+                <TableRow key={tag.id} className={cn(tag.archived && "opacity-60")}>
+                  <TableCell>
+                    <TagChip name={tag.name} color={tag.color} />
+                    {tag.archived && <span className="ml-2 text-xs text-muted-foreground">Archived</span>}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{tag.description}</TableCell>
+                  <TableCell>{usageFor(tag)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => setDraft(tag)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Edit</span>
+                    </Button>
+                    <Button variant="ghost" size="icon" className="hover:text-destructive" onClick={() => handleDelete(tag)}>
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {catalog.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
+                    No tags in the catalogue yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+          <Button variant="outline" onClick={() => setDraft({ name: "", color: DEFAULT_TAG_COLOR, description: "", archived: false })}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Tag
+          </Button>
+        </div>
+
+        {/* Tags used on tasks but missing from the catalogue */}
+        {untrackedTags.length > 0 && (
+          <div className="space-y-2">
+            <Label>Not in the catalogue</Label>
+            <div className="flex flex-wrap gap-2">
+              {untrackedTags.map(name => (
+                <button
+                  key={name}
+                  type="button"
+                  title="Add to catalogue"
+                  onClick={() => setDraft({ name, color: DEFAULT_TAG_COLOR, description: "", archived: false })}
+                >
+                  <TagChip name={name} className="hover:opacity-80" />
+                  <span className="ml-1 text-xs text-muted-foreground">{usage[name]}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Merge */}
+        <div className="space-y-3 rounded-md border p-4">
+          <Label className="flex items-center gap-2">
+            <GitMerge className="h-4 w-4" />
+            Merge tags
+          </Label>
+          <div className="flex flex-col gap-3 md:flex-row md:items-start">
+            <div className="flex-1 space-y-2">
+              <p className="text-sm text-muted-foreground">Replace these tags...</p>
+              <div className="flex max-h-40 flex-wrap gap-3 overflow-y-auto">
+                {mergeCandidates.map(name => (
+                  <label key={name} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox
+                      checked={mergeSources.includes(name)}
+                      onCheckedChange={(checked) => setMergeSources(prev =>
+                        checked === true ? [...prev, name] : prev.filter(source => source !== name)
+                      )}
+                    />
+                    <TagChip name={name} />
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2 md:w-[200px]">
+              <p className="text-sm text-muted-foreground">...with</p>
+              <Select value={mergeTargetId} onValueChange={(id) => {
+                setMergeTargetId(id);
+                setMergeSources(prev => prev.filter(name => name !== catalog.find(tag => tag.id === id)?.name));
+              }}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a tag" />
+                </SelectTrigger>
+                <SelectContent>
+                  {catalog.filter(tag => !tag.archived).map(tag => (
+                    <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button className="w-full" onClick={handleMerge} disabled={isWorking || !mergeTarget || mergeSources.length === 0}>
+                {isWorking ? "Merging..." : "Merge"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Tag" : "Add Tag"}</DialogTitle>
+            {draft?.id && (
+              <DialogDescription>Renaming updates the tag on every task that uses it.</DialogDescription>
+            )}
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="tag-name">Name*</Label>
+                <Input id="tag-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Colour</Label>
+                <div className="flex flex-wrap gap-2">
+                  {TAG_COLORS.map(color => (
+                    <button
+                      key={color}
+                      type="button"
+                      className={cn("h-6 w-6 rounded-full border-2", draft.color === color ? "border-foreground" : "border-transparent")}
+                      style={{ backgroundColor: color }}
+                      onClick={() => setDraft({ ...draft, color })}
+                    >
+                      <span className="sr-only">{color}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tag-description">Description</Label>
+                <Input
+                  id="tag-description"
+                  value={draft.description || ""}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="tag-archived">Archived</Label>
+                  <p className="text-sm text-muted-foreground">Hidden from suggestions but kept on tasks</p>
+                </div>
+                <Switch
+                  id="tag-archived"
+                  checked={!!draft.archived}
+                  onCheckedChange={(archived) => setDraft({ ...draft, archived })}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={isWorking}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isWorking}>
+              {isWorking ? "Saving..." : "Save Tag"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,260 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardList, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { TaskPriority, TaskTemplate } from "@/lib/types";
+import { deleteTaskTemplate, getTaskTemplates, saveTaskTemplate } from "@/lib/dataService.ts";
+import { TITLE_PLACEHOLDERS, validateTemplate } from "@/lib/taskTemplates";
+import { WORKFLOW_ROLES } from "@/lib/workflow";
+import { formatPriority } from "@/lib/utils";
+
+const formatRole = (role: string) => {
+  return role
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+type TemplateDraft = Omit<TaskTemplate, 'id'> & { id?: string };
+
+const EMPTY_TEMPLATE: TemplateDraft = {
+  name: "",
+  titlePattern: "",
+  description: "",
+  priority: TaskPriority.MEDIUM,
+  tags: [],
+  defaultAssigneeRole: undefined,
+  dueOffsetDays: 7,
+  subtasks: []
+};
+
+export const TemplateSettings = () => {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [tagsText, setTagsText] = useState("");
+  const [subtasksText, setSubtasksText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getTaskTemplates()
+      .then(setTemplates)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const openEditor = (template: TemplateDraft) => {
+    setDraft(template);
+    setTagsText((template.tags || []).join(", "));
+    setSubtasksText((template.subtasks || []).join("\n"));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const template: TemplateDraft = {
+      ...draft,
+      name: draft.name.trim(),
+      titlePattern: draft.titlePattern.trim(),
+      tags: tagsText.split(",").map(tag => tag.trim()).filter(Boolean),
+      subtasks: subtasksText.split("\n").map(line => line.trim()).filter(Boolean)
+    };
+    const validation = validateTemplate(template);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveTaskTemplate(template);
+      if (saved) {
+        setTemplates(prev => template.id
+          ? prev.map(t => t.id === saved.id ? saved : t)
+          : [...prev, saved]);
+        setDraft(null);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: TaskTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template?`)) return;
+
+    const deleted = await deleteTaskTemplate(template.id);
+    if (deleted) {
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    }
+  };
+
+  return (
+    <Card className="animate-slide-up">
+      <CardHeader>
+        <CardTitle>
+          <div className="flex items-center">
+            <ClipboardList className="mr-2 h-5 w-5" />
+            Task Templates
+          </div>
+        </CardTitle>
+        <CardDescription>
+          Reusable starting points for checklists that are created again and again, such as onboarding or releases
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading templates...</p>
+        ) : templates.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Subtasks</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map(template => (
+                <TableRow key={template.id}>
+                  <TableCell>
+                    <p className="font-medium">{template.name}</p>
+                    <p className="text-xs text-muted-foreground">{template.titlePattern}</p>
+                  </TableCell>
+                  <TableCell>+{template.dueOffsetDays} days</TableCell>
+                  <TableCell>{template.subtasks?.length || 0}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => openEditor(template)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Edit</span>
+                    </Button>
+                    <Button variant="ghost" size="icon" className="hover:text-destructive" onClick={() => handleDelete(template)}>
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No templates yet.</p>
+        )}
+
+        <Button variant="outline" onClick={() => openEditor(EMPTY_TEMPLATE)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Template
+        </Button>
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Template" : "New Template"}</DialogTitle>
+            <DialogDescription>
+              Title placeholders: {TITLE_PLACEHOLDERS.join(", ")}
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Template name*</Label>
+                <Input id="template-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-title">Task title*</Label>
+                <Input
+                  id="template-title"
+                  value={draft.titlePattern}
+                  onChange={(e) => setDraft({ ...draft, titlePattern: e.target.value })}
+                  placeholder="Release checklist {month}"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Description</Label>
+                <Textarea
+                  id="template-description"
+                  rows={3}
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select value={draft.priority || TaskPriority.MEDIUM} onValueChange={(priority) => setDraft({ ...draft, priority })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(TaskPriority).map(priority => (
+                        <SelectItem key={priority} value={priority}>{formatPriority(priority)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-offset">Due after (days)*</Label>
+                  <Input
+                    id="template-offset"
+                    type="number"
+                    min={0}
+                    value={draft.dueOffsetDays}
+                    onChange={(e) => setDraft({ ...draft, dueOffsetDays: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Default assignee role</Label>
+                <Select
+                  value={draft.defaultAssigneeRole || "none"}
+                  onValueChange={(role) => setDraft({ ...draft, defaultAssigneeRole: role === "none" ? undefined : role })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Choose when creating</SelectItem>
+                    {WORKFLOW_ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{formatRole(role)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-tags">Tags</Label>
+                <Input id="template-tags" value={tagsText} onChange={(e) => setTagsText(e.target.value)} placeholder="onboarding, hr" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-subtasks">Subtasks</Label>
+                <Textarea
+                  id="template-subtasks"
+                  rows={4}
+                  value={subtasksText}
+                  onChange={(e) => setSubtasksText(e.target.value)}
+                  placeholder="One subtask per line"
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
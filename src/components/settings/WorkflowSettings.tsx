@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, GitBranch, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { TaskStatus, WorkflowConfig, WorkflowState } from "@/lib/types";
+import { getAllTasks, saveWorkflowConfig } from "@/lib/dataService.ts";
+import {
+  DEFAULT_WORKFLOW,
+  getWorkflowConfig,
+  getWorkflowStates,
+  validateWorkflowConfig,
+  WORKFLOW_CATEGORIES,
+  WORKFLOW_ROLES
+} from "@/lib/workflow";
+
+const formatRole = (role: string) => {
+  return role
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+// Build a URL-safe state ID from its name, unique within the workflow
+const createStateId = (name: string, states: WorkflowState[]) => {
+  const base = name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'state';
+  let id = base;
+  let suffix = 2;
+  while (states.some(state => state.id === id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+};
+
+export const WorkflowSettings = () => {
+  const [config, setConfig] = useState<WorkflowConfig>(() => {
+    const current = getWorkflowConfig();
+    return { ...current, states: getWorkflowStates(current) };
+  });
+  const [newStateName, setNewStateName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [taskCounts, setTaskCounts] = useState<Record<string, number>>({});
+
+  // Count tasks per state so states still in use can't be removed
+  useEffect(() => {
+    getAllTasks().then(tasks => {
+      const counts: Record<string, number> = {};
+      (Array.isArray(tasks) ? tasks : []).forEach(task => {
+        counts[task.status] = (counts[task.status] || 0) + 1;
+      });
+      setTaskCounts(counts);
+    });
+  }, []);
+
+  const updateState = (id: string, changes: Partial<WorkflowState>) => {
+    setConfig(prev => ({
+      ...prev,
+      states: prev.states.map(state => state.id === id ? { ...state, ...changes } : state)
+    }));
+  };
+
+  const moveState = (index: number, direction: -1 | 1) => {
+    setConfig(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.states.length) return prev;
+      const states = [...prev.states];
+      [states[index], states[target]] = [states[target], states[index]];
+      return { ...prev, states: states.map((state, order) => ({ ...state, order })) };
+    });
+  };
+
+  const handleAddState = () => {
+    const name = newStateName.trim();
+    if (!name) return;
+
+    setConfig(prev => {
+      const newState: WorkflowState = {
+        id: createStateId(name, prev.states),
+        name,
+        category: TaskStatus.IN_PROGRESS,
+        color: '#8b5cf6',
+        order: prev.states.length
+      };
+      // New states start out reachable from and to every other state
+      const newTransitions = prev.states.flatMap(state => [
+        { from: state.id, to: newState.id, roles: [...WORKFLOW_ROLES] },
+        { from: newState.id, to: state.id, roles: [...WORKFLOW_ROLES] }
+      ]);
+      return {
+        ...prev,
+        states: [...prev.states, newState],
+        transitions: [...prev.transitions, ...newTransitions]
+      };
+    });
+    setNewStateName("");
+  };
+
+  const handleRemoveState = (id: string) => {
+    const state = config.states.find(s => s.id === id);
+    const taskCount = taskCounts[id] || 0;
+    if (taskCount > 0) {
+      toast.error(`${taskCount} task${taskCount === 1 ? ' is' : 's are'} still in "${state?.name}". Move ${taskCount === 1 ? 'it' : 'them'} to another state first.`);
+      return;
+    }
+    if (!confirm(`Remove the "${state?.name}" state?`)) return;
+
+    setConfig(prev => ({
+      ...prev,
+      states: prev.states.filter(s => s.id !== id).map((s, order) => ({ ...s, order })),
+      transitions: prev.transitions.filter(t => t.from !== id && t.to !== id)
+    }));
+  };
+
+  const isRoleAllowed = (from: string, to: string, role: string) =>
+    config.transitions.some(t => t.from === from && t.to === to && t.roles.includes(role));
+
+  const toggleTransitionRole = (from: string, to: string, role: string, allowed: boolean) => {
+    setConfig(prev => {
+      const existing = prev.transitions.find(t => t.from === from && t.to === to);
+      const otherTransitions = prev.transitions.filter(t => t !== existing);
+      const roles = new Set(existing?.roles || []);
+      if (allowed) {
+        roles.add(role);
+      } else {
+        roles.delete(role);
+      }
+      return {
+        ...prev,
+        transitions: roles.size > 0 ? [...otherTransitions, { from, to, roles: Array.from(roles) }] : otherTransitions
+      };
+    });
+  };
+
+  // States that still have tasks in them but are missing from a new set of states
+  const getRemovedStatesInUse = (states: WorkflowState[]) =>
+    config.states.filter(state => (taskCounts[state.id] || 0) > 0 && !states.some(s => s.id === state.id));
+
+  const reportRemovedStatesInUse = (states: WorkflowState[]): boolean => {
+    const inUse = getRemovedStatesInUse(states);
+    if (inUse.length === 0) return false;
+    toast.error(`Tasks are still in ${inUse.map(state => `"${state.name}"`).join(', ')}. Move them to another state first.`);
+    return true;
+  };
+
+  const handleReset = () => {
+    if (reportRemovedStatesInUse(DEFAULT_WORKFLOW.states)) return;
+    if (!confirm("Reset the workflow to the default Not Started / In Progress / Completed states?")) return;
+    setConfig(DEFAULT_WORKFLOW);
+  };
+
+  const handleSave = async () => {
+    const validation = validateWorkflowConfig(config);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveWorkflowConfig({ ...config, updatedAt: new Date().toISOString() });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="animate-slide-up">
+      <CardHeader>
+        <CardTitle>
+          <div className="flex items-center">
+            <GitBranch className="mr-2 h-5 w-5" />
+            Task Workflow
+          </div>
+        </CardTitle>
+        <CardDescription>
+          Define task states, the reporting category each one counts towards, and which roles may move tasks between them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* States */}
+        <div className="space-y-2">
+          <Label>States</Label>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Reports as</TableHead>
+                <TableHead>Colour</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {config.states.map((state, index) => (
+                <TableRow key={state.id}>
+                  <TableCell>
+                    <Input
+                      value={state.name}
+                      onChange={(e) => updateState(state.id, { name: e.target.value })}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={state.category}
+                      onValueChange={(value) => updateState(state.id, { category: value as TaskStatus })}
+                    >
+                      <SelectTrigger className="h-8 w-[150px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WORKFLOW_CATEGORIES.map(category => (
+                          <SelectItem key={category.value} value={category.value}>
+                            {category.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="color"
+                      value={state.color}
+                      onChange={(e) => updateState(state.id, { color: e.target.value })}
+                      className="h-8 w-14 p-1"
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveState(index, -1)} disabled={index === 0}>
+                        <ArrowUp className="h-3.5 w-3.5" />
+                        <span className="sr-only">Move up</span>
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveState(index, 1)} disabled={index === config.states.length - 1}>
+                        <ArrowDown className="h-3.5 w-3.5" />
+                        <span className="sr-only">Move down</span>
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0 hover:text-destructive" onClick={() => handleRemoveState(state.id)} disabled={config.states.length <= 1}>
+                        <Trash2 className="h-3.5 w-3.5" />
+                        <span className="sr-only">Remove</span>
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex gap-2">
+            <Input
+              placeholder="New state name, e.g. In Review"
+              value={newStateName}
+              onChange={(e) => setNewStateName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleAddState();
+                }
+              }}
+            />
+            <Button variant="outline" onClick={handleAddState} disabled={!newStateName.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add State
+            </Button>
+          </div>
+        </div>
+
+        {/* Transitions */}
+        <div className="space-y-2">
+          <Label>Allowed transitions by role</Label>
+          <div className="overflow-auto max-h-[400px] rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>From</TableHead>
+                  <TableHead>To</TableHead>
+                  {WORKFLOW_ROLES.map(role => (
+                    <TableHead key={role} className="text-center">{formatRole(role)}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {config.states.flatMap(from =>
+                  config.states
+                    .filter(to => to.id !== from.id)
+                    .map(to => (
+                      <TableRow key={`${from.id}-${to.id}`}>
+                        <TableCell className="text-sm">{from.name}</TableCell>
+                        <TableCell className="text-sm">{to.name}</TableCell>
+                        {WORKFLOW_ROLES.map(role => (
+                          <TableCell key={role} className="text-center">
+                            <Checkbox
+                              checked={isRoleAllowed(from.id, to.id, role)}
+                              onCheckedChange={(checked) => toggleTransitionRole(from.id, to.id, role, checked === true)}
+                            />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={handleReset} disabled={isSaving}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset to Default
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Workflow"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,88 @@
+import { Task, TaskAcceptance, TaskHistoryEntry, User } from "./types";
+import { getAssigneeId } from "./taskFilters";
+import { isCompletedStatus } from "./workflow";
+
+const ACCEPTANCE_THRESHOLD_STORAGE_KEY = 'acceptanceThresholdHours';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_ACCEPTANCE_THRESHOLD_HOURS = 24;
+
+export const ACCEPTANCE_THRESHOLDS: { value: number; label: string }[] = [
+  { value: 4, label: '4 hours' },
+  { value: 24, label: '1 day' },
+  { value: 48, label: '2 days' },
+  { value: 168, label: '1 week' },
+];
+
+// A new assignment waits for the assignee's answer unless they assigned the task to themselves
+export function buildAcceptance(assigneeId: string, assignedBy: string, now: Date = new Date()): TaskAcceptance {
+  const assignedAt = now.toISOString();
+  return assigneeId === assignedBy
+    ? { status: 'accepted', assigneeId, assignedBy, assignedAt, respondedAt: assignedAt }
+    : { status: 'pending', assigneeId, assignedBy, assignedAt };
+}
+
+// Work that follows on from a task its assignee already holds, such as a subtask or the next
+// instance of a recurring task, is taken as accepted rather than asked about again
+export function buildInheritedAcceptance(assigneeId: string, assignedBy: string, now: Date = new Date()): TaskAcceptance {
+  const assignedAt = now.toISOString();
+  return { status: 'accepted', assigneeId, assignedBy, assignedAt, respondedAt: assignedAt };
+}
+
+// The answer only counts for the assignee it was asked of, and completed tasks need none
+export function isAwaitingAcceptance(task: Task): boolean {
+  return task.acceptance?.status === 'pending' &&
+    task.acceptance.assigneeId === getAssigneeId(task) &&
+    !isCompletedStatus(task.status);
+}
+
+export function isAssignmentDeclined(task: Task): boolean {
+  return task.acceptance?.status === 'declined' && task.acceptance.assigneeId === getAssigneeId(task);
+}
+
+export function canRespondToAssignment(user: User, task: Task): boolean {
+  return isAwaitingAcceptance(task) && getAssigneeId(task) === user.id;
+}
+
+export function getHoursAwaitingAcceptance(task: Task, now: Date = new Date()): number {
+  if (!task.acceptance) return 0;
+  return Math.max(0, (now.getTime() - new Date(task.acceptance.assignedAt).getTime()) / HOUR_MS);
+}
+
+// Assignments nobody has answered within the threshold, oldest first
+export function getUnacknowledgedAssignments(tasks: Task[], thresholdHours: number, now: Date = new Date()): Task[] {
+  return tasks
+    .filter(task => isAwaitingAcceptance(task) && getHoursAwaitingAcceptance(task, now) >= thresholdHours)
+    .sort((a, b) => getHoursAwaitingAcceptance(b, now) - getHoursAwaitingAcceptance(a, now));
+}
+
+// How long managers wait before an unanswered assignment is flagged. The threshold is kept
+// on the server; this reads the copy cached on the last fetch.
+export function getAcceptanceThresholdHours(): number {
+  const stored = Number(localStorage.getItem(ACCEPTANCE_THRESHOLD_STORAGE_KEY));
+  return stored > 0 ? stored : DEFAULT_ACCEPTANCE_THRESHOLD_HOURS;
+}
+
+export function cacheAcceptanceThresholdHours(hours: number): void {
+  localStorage.setItem(ACCEPTANCE_THRESHOLD_STORAGE_KEY, String(hours));
+}
+
+export function buildAcceptanceHistoryEntry(
+  task: Task,
+  accepted: boolean,
+  actorId: string,
+  reason?: string,
+  timestamp: string = new Date().toISOString()
+): TaskHistoryEntry {
+  return {
+    taskId: task.id,
+    actorId,
+    timestamp,
+    field: 'assigneeId',
+    oldValue: null,
+    newValue: getAssigneeId(task),
+    event: accepted ? 'assignment_accepted' : 'assignment_declined',
+    note: reason?.trim() || undefined
+  };
+}
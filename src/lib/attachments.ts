@@ -0,0 +1,52 @@
+import { TaskAttachment } from "./types";
+
+// Maximum size of a single attachment (10MB)
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/zip'
+];
+
+// Value for the file input's accept attribute
+export const ATTACHMENT_ACCEPT = ALLOWED_ATTACHMENT_TYPES.join(',');
+
+// Check a file against the type and size limits before uploading
+export function validateAttachment(file: File): { isValid: boolean; error?: string } {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return { isValid: false, error: `"${file.name}" is not a supported file type` };
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return { isValid: false, error: `"${file.name}" must be less than ${formatFileSize(MAX_ATTACHMENT_SIZE)}` };
+  }
+  return { isValid: true };
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function isImageAttachment(attachment: Pick<TaskAttachment, 'mimeType'>): boolean {
+  return attachment.mimeType.startsWith('image/');
+}
+
+export function isPdfAttachment(attachment: Pick<TaskAttachment, 'mimeType'>): boolean {
+  return attachment.mimeType === 'application/pdf';
+}
+
+// Images and PDFs can be shown inline
+export function canPreviewAttachment(attachment: Pick<TaskAttachment, 'mimeType'>): boolean {
+  return isImageAttachment(attachment) || isPdfAttachment(attachment);
+}
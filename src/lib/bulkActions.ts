@@ -0,0 +1,113 @@
+import { addDays } from "date-fns";
+import { Task, TaskPriority, TaskStatus, User } from "./types";
+import { calculatePermissions, calculateTaskPermissions } from "./taskPermissions";
+import { getOpenBlockers } from "./taskDependencies";
+import { canTransition, getStatusCategory, getWorkflowState } from "./workflow";
+
+export type BulkAction =
+  | { type: 'reassign'; assigneeId: string }
+  | { type: 'status'; status: TaskStatus | string }
+  | { type: 'priority'; priority: TaskPriority | string }
+  | { type: 'tags'; add: string[]; remove: string[] }
+  | { type: 'shiftTargetDate'; days: number }
+  | { type: 'delete' };
+
+export interface BulkActionResult {
+  task: Task;
+  success: boolean;
+  error?: string;
+}
+
+// Why the user may not apply an action to a task, or null when it is allowed.
+// Mirrors the per-task rules enforced by the task form and card: a task only goes to
+// someone the user may assign to, and a parent can't be deleted while it has subtasks.
+export function getBulkActionError(
+  currentUser: User,
+  task: Task,
+  action: BulkAction,
+  allTasks: Task[],
+  assignableUserIds: string[]
+): string | null {
+  const permissions = calculatePermissions(currentUser, task);
+
+  switch (action.type) {
+    case 'reassign':
+      if (!permissions.canEditAssignee) return "You can't reassign this task";
+      return assignableUserIds.includes(action.assigneeId) ? null : "You can't assign tasks to this person";
+    case 'status':
+      if (!permissions.canEditStatus) return "You can't change the status of this task";
+      if (!canTransition(String(task.status), String(action.status), currentUser.role)) {
+        return `Can't move from ${getWorkflowState(task.status).name} to ${getWorkflowState(action.status).name}`;
+      }
+      if (getStatusCategory(action.status) === TaskStatus.IN_PROGRESS && getOpenBlockers(task, allTasks).length > 0) {
+        return 'Blocked by unfinished tasks';
+      }
+      return null;
+    case 'priority':
+      return permissions.canEditPriority ? null : "You can't change the priority of this task";
+    case 'tags':
+      return permissions.canEditTags ? null : "You can't edit the tags of this task";
+    case 'shiftTargetDate':
+      return permissions.canEditTargetDate ? null : "You can't change the target date of this task";
+    case 'delete':
+      if (!calculateTaskPermissions(currentUser, task).canDelete) return "You can't delete this task";
+      return allTasks.some(other => other.parentTaskId === task.id) ? 'Delete its subtasks first' : null;
+  }
+}
+
+// Subtasks before their parents, so deleting both in one run clears the parent's subtasks first
+export function orderForBulkAction(tasks: Task[], action: BulkAction): Task[] {
+  if (action.type !== 'delete') return tasks;
+  return [...tasks.filter(task => task.parentTaskId), ...tasks.filter(task => !task.parentTaskId)];
+}
+
+// The field changes an update action makes to a task
+export function getBulkChanges(task: Task, action: BulkAction): Partial<Task> {
+  switch (action.type) {
+    case 'reassign':
+      return { assigneeId: action.assigneeId };
+    case 'status':
+      return { status: action.status };
+    case 'priority':
+      return { priority: action.priority };
+    case 'tags': {
+      const tags = (task.tags || []).filter(tag => !action.remove.includes(tag));
+      action.add.forEach(tag => {
+        if (!tags.includes(tag)) tags.push(tag);
+      });
+      return { tags };
+    }
+    case 'shiftTargetDate':
+      return { targetDate: addDays(new Date(task.targetDate), action.days).toISOString() };
+    default:
+      return {};
+  }
+}
+
+// Short past-tense summary for result messages, e.g. "Reassigned 3 tasks"
+export function describeBulkAction(action: BulkAction, count: number): string {
+  const tasks = `${count} task${count === 1 ? '' : 's'}`;
+  switch (action.type) {
+    case 'reassign':
+      return `Reassigned ${tasks}`;
+    case 'status':
+      return `Moved ${tasks} to ${getWorkflowState(action.status).name}`;
+    case 'priority':
+      return `Set priority on ${tasks}`;
+    case 'tags':
+      return `Updated tags on ${tasks}`;
+    case 'shiftTargetDate':
+      return `Shifted target date of ${tasks} by ${action.days} day${Math.abs(action.days) === 1 ? '' : 's'}`;
+    case 'delete':
+      return `Deleted ${tasks}`;
+  }
+}
+
+// IDs between the anchor and the clicked item (inclusive), in display order.
+// Falls back to just the clicked item when the anchor is no longer visible.
+export function getSelectionRange(orderedIds: string[], anchorId: string | null, targetId: string): string[] {
+  const start = anchorId ? orderedIds.indexOf(anchorId) : -1;
+  const end = orderedIds.indexOf(targetId);
+  if (start === -1 || end === -1) return [targetId];
+  return orderedIds.slice(Math.min(start, end), Math.max(start, end) + 1);
+}
@@ -0,0 +1,86 @@
+import { eachDayOfInterval, endOfDay, format, isAfter, isBefore, parseISO, startOfDay } from "date-fns";
+import { Task, TaskHistoryEntry, TimeSeriesData } from "./types";
+import { getRemainingEffort } from "./estimates";
+import { isCompletedStatus } from "./workflow";
+
+export interface BurndownSeries {
+  ideal: TimeSeriesData[];
+  actual: TimeSeriesData[]; // Only up to today
+}
+
+// When a task counts as done for burndown purposes
+const getCompletedAt = (task: Task): Date | null => {
+  if (!isCompletedStatus(task.status)) return null;
+  return parseISO(task.completedDate || task.lastUpdated);
+};
+
+// Value an effort field had at a point in time, replayed from the task's history: the
+// last change made by then, else the value before the first later change, else the current value
+const getEffortFieldAt = (
+  task: Task,
+  history: TaskHistoryEntry[],
+  field: 'estimate' | 'remainingEffort',
+  at: Date
+): number | null => {
+  const changes = history
+    .filter(entry => entry.field === field)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const toNumber = (value: TaskHistoryEntry['oldValue']) => typeof value === 'string' ? Number(value) : null;
+
+  const lastChange = [...changes].reverse().find(entry => !isAfter(parseISO(entry.timestamp), at));
+  if (lastChange) return toNumber(lastChange.newValue);
+
+  const nextChange = changes.find(entry => isAfter(parseISO(entry.timestamp), at));
+  if (nextChange) return toNumber(nextChange.oldValue);
+
+  return task[field] ?? null;
+};
+
+// Effort a task contributed to the backlog at the end of a given day. Past days use
+// the remaining effort recorded in the task's history, falling back to the estimate.
+const getEffortOnDay = (task: Task, history: TaskHistoryEntry[], day: Date, today: Date): number => {
+  if (task.assignedDate && isAfter(startOfDay(parseISO(task.assignedDate)), day)) return 0;
+
+  const completedAt = getCompletedAt(task);
+  if (completedAt && !isAfter(completedAt, endOfDay(day))) return 0;
+
+  if (!isBefore(day, startOfDay(today))) return getRemainingEffort(task);
+  const endOfPastDay = endOfDay(day);
+  return getEffortFieldAt(task, history, 'remainingEffort', endOfPastDay) ??
+    getEffortFieldAt(task, history, 'estimate', endOfPastDay) ??
+    0;
+};
+
+// Daily ideal and actual remaining effort for a set of tasks between two dates.
+// History is keyed by task ID; tasks without any are treated as never re-estimated.
+export function buildBurndownSeries(
+  tasks: Task[],
+  start: Date,
+  end: Date,
+  historyByTask: Record<string, TaskHistoryEntry[]> = {},
+  today: Date = new Date()
+): BurndownSeries {
+  if (isAfter(startOfDay(start), startOfDay(end))) {
+    return { ideal: [], actual: [] };
+  }
+
+  const days = eachDayOfInterval({ start: startOfDay(start), end: startOfDay(end) });
+  const initialEffort = tasks.reduce((total, task) => total + getEffortOnDay(task, historyByTask[task.id] || [], days[0], today), 0);
+  const steps = Math.max(1, days.length - 1);
+
+  const ideal = days.map((day, index) => ({
+    date: format(day, 'yyyy-MM-dd'),
+    value: Math.round((initialEffort * (1 - index / steps)) * 10) / 10,
+    label: format(day, 'MMM d')
+  }));
+
+  const actual = days
+    .filter(day => !isAfter(day, startOfDay(today)))
+    .map(day => ({
+      date: format(day, 'yyyy-MM-dd'),
+      value: Math.round(tasks.reduce((total, task) => total + getEffortOnDay(task, historyByTask[task.id] || [], day, today), 0) * 10) / 10,
+      label: format(day, 'MMM d')
+    }));
+
+  return { ideal, actual };
+}
@@ -1,5 +1,20 @@
-import { Task, TaskStatus, User, Report, UserRole } from '@/lib/types';
+import { CalendarFeed, EscalationConfig, EstimateUnit, Notification, ReassignmentRequest, ReassignmentRequestStatus, SavedTaskView, Task, TaskAttachment, TaskComment, TaskEscalation, TaskHistoryEntry, TaskStatus, TaskTag, TaskTemplate, TimeEntry, User, Report, UserRole, WorkflowConfig } from '@/lib/types';
 import { toast } from 'sonner';
+import { buildTaskHierarchy, flattenTaskHierarchy } from '@/lib/taskHierarchy';
+import { buildNextOccurrence, getLatestSeriesInstances, isRecurrenceDue } from '@/lib/recurrence';
+import { getMentionableUsers } from '@/lib/mentions';
+import { diffTaskFields } from '@/lib/taskHistory';
+import { cacheTagCatalog, getTagCatalog } from '@/lib/tags';
+import { cacheEscalationConfig, formatOverdueDuration, getDueEscalations, getEscalationConfig } from '@/lib/escalation';
+import { cacheEstimateUnit, getEstimateUnit, isEstimateUnit } from '@/lib/estimates';
+import { calculateReportSummary } from '@/lib/utils';
+import { getAssigneeId, isOverdue } from '@/lib/taskFilters';
+import { buildAcceptance, buildAcceptanceHistoryEntry, buildInheritedAcceptance, cacheAcceptanceThresholdHours, getAcceptanceThresholdHours } from '@/lib/acceptance';
+import { buildReassignmentHistoryEntry, getReassignmentApproverId } from '@/lib/reassignment';
+import { addWatcherIds, getWatcherIds, getWatchersToNotify, isWatching } from '@/lib/watchers';
+import { ImportOutcome, ImportRowResult } from '@/lib/taskImport';
+import { BulkAction, BulkActionResult, describeBulkAction, getBulkActionError, getBulkChanges, orderForBulkAction } from '@/lib/bulkActions';
+import { cacheWorkflowConfig, canTransition, getStatusCategory, getWorkflowConfig, getWorkflowState, isCompletedStatus } from '@/lib/workflow';
 
 // API base URL
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://taskberry-backend.onrender.com';
@@ -321,7 +336,7 @@ export const getActiveUsers = async (): Promise<User[]> => {
 
 export const getUserByEmail = async (email: string): Promise<User | undefined> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/users/email/${email}`, {
+    const response = await fetch(`${API_BASE_URL}/api/users/email/${encodeURIComponent(email)}`, {
       headers: getAuthHeaders()
     });
 
@@ -630,13 +645,14 @@ export const validateHierarchy = (
   return { isValid: true };
 };
 
-// ENHANCED: Get assignable users based on role hierarchy
-export const getAssignableUsers = async (currentUserId: string): Promise<User[]> => {
+// ENHANCED: Get assignable users based on role hierarchy. Pass an assigner to
+// apply their rules instead of the current user's, e.g. for a request's approver.
+export const getAssignableUsers = async (currentUserId: string, assigner?: User): Promise<User[]> => {
   try {
     console.log('Getting assignable users...');
     
     // Get current user to determine permissions
-    const currentUser = getCurrentUser();
+    const currentUser = assigner || getCurrentUser();
     if (!currentUser) {
       console.error('No current user found');
       return [];
@@ -778,7 +794,8 @@ export const getTasksForUser = async (userId: string): Promise<Task[]> => {
 
     if (response.ok) {
       const tasks = await response.json();
-      return tasks;
+      // Nest subtasks under their parents so callers can render the hierarchy
+      return buildTaskHierarchy(Array.isArray(tasks) ? tasks : []);
     } else {
       console.error('Failed to fetch user tasks:', response.status);
       return [];
@@ -798,7 +815,8 @@ export const getTasksForTeam = async (userId: string): Promise<Task[]> => {
 
     if (response.ok) {
       const tasks = await response.json();
-      return tasks;
+      // Nest subtasks under their parents so callers can render the hierarchy
+      return buildTaskHierarchy(Array.isArray(tasks) ? tasks : []);
     } else {
       console.error('Failed to fetch team tasks:', response.status);
       return [];
@@ -809,13 +827,65 @@ export const getTasksForTeam = async (userId: string): Promise<Task[]> => {
   }
 };
 
-// Add a new task
-export const addTask = async (taskData: Omit<Task, 'id' | 'lastUpdated'>): Promise<Task> => {
+// Get the tasks a user is allowed to see, based on their role
+export const getVisibleTasks = async (user: User): Promise<Task[]> => {
+  switch (user.role) {
+    case 'super_admin':
+    case 'manager':
+      // Admin and managers can see all tasks or team tasks
+      try {
+        return await getAllTasks();
+      } catch (error) {
+        console.log('All tasks not available, falling back to team tasks');
+        return await getTasksForTeam(user.id);
+      }
+
+    case 'supervisor':
+      // Supervisors see their team's tasks
+      return await getTasksForTeam(user.id);
+
+    case 'member':
+    default:
+      // Members see only their own tasks
+      return await getTasksForUser(user.id);
+  }
+};
+
+// Watcher and acceptance fields to send with a task. Pass null as the previous version
+// for a new task: its creator and assignee follow it and the assignee is asked to accept,
+// unless they already hold the task it comes from (inheritedAssigneeId).
+// On updates watchers only change through the watcher endpoints, so a stale copy can't drop
+// a follower, and only a new assignee is asked to accept.
+const getAssignmentFields = (
+  task: Omit<Task, 'id' | 'lastUpdated'>,
+  previous: Task | null | undefined,
+  inheritedAssigneeId?: string
+): Pick<Task, 'watchers' | 'acceptance'> => {
+  const currentUserId = getCurrentUser().id;
+  const assigneeId = getAssigneeId(task as Task);
+
+  if (previous === null) {
+    return {
+      watchers: addWatcherIds(task.watchers || [], [currentUserId, assigneeId]),
+      acceptance: assigneeId === inheritedAssigneeId
+        ? buildInheritedAcceptance(assigneeId, currentUserId)
+        : buildAcceptance(assigneeId, currentUserId)
+    };
+  }
+  return {
+    watchers: undefined,
+    acceptance: previous && assigneeId !== getAssigneeId(previous) ? buildAcceptance(assigneeId, currentUserId) : undefined
+  };
+};
+
+// Add a new task. Pass the assignee of the task it follows on from, if any, so they
+// aren't asked to accept work they already hold.
+export const addTask = async (taskData: Omit<Task, 'id' | 'lastUpdated'>, inheritedAssigneeId?: string): Promise<Task> => {
   try {
     const response = await fetch(`${API_BASE_URL}/api/tasks`, {
       method: 'POST',
       headers: getAuthHeaders(),
-      body: JSON.stringify(taskData)
+      body: JSON.stringify({ ...taskData, ...getAssignmentFields(taskData, null, inheritedAssigneeId) })
     });
 
     if (response.ok) {
@@ -833,18 +903,37 @@ export const addTask = async (taskData: Omit<Task, 'id' | 'lastUpdated'>): Promi
   }
 };
 
-// Update an existing task
-export const updateTask = async (task: Task): Promise<Task> => {
+// Throw when the current user's role may not move a task between these states
+const assertTransitionAllowed = (fromStatus: string, toStatus: string): void => {
+  if (!canTransition(fromStatus, toStatus, String(getCurrentUser().role))) {
+    throw new Error(`You can't move this task from ${getWorkflowState(fromStatus).name} to ${getWorkflowState(toStatus).name}`);
+  }
+};
+
+// Update an existing task. Pass the version being edited so changes can be
+// recorded in the task history without fetching it again.
+export const updateTask = async (task: Task, previous?: Task): Promise<Task> => {
   try {
+    const before = previous || await getTaskByIdAsync(task.id);
+    if (before && task.status) assertTransitionAllowed(before.status, task.status);
     const response = await fetch(`${API_BASE_URL}/api/tasks/${task.id}`, {
       method: 'PUT',
       headers: getAuthHeaders(),
-      body: JSON.stringify(task)
+      body: JSON.stringify({ ...task, ...getAssignmentFields(task, before) })
     });
 
     if (response.ok) {
       const updatedTask = await response.json();
       toast.success('Task updated successfully');
+      if (before) {
+        await recordTaskHistory(task.id, diffTaskFields(before, task, getCurrentUser().id));
+        await notifyWatchersOfUpdate(before, task);
+      }
+
+      // Completing a recurring instance from the form schedules the next one too
+      if (isCompletedStatus(task.status) && !(before && isCompletedStatus(before.status)) && updatedTask?.recurrence) {
+        await materializeNextOccurrence(updatedTask);
+      }
       return updatedTask;
     } else {
       const error = await response.json();
@@ -858,8 +947,20 @@ export const updateTask = async (task: Task): Promise<Task> => {
 };
 
 // Update task status
-export const updateTaskStatus = async (taskId: string, status: TaskStatus): Promise<Task | undefined> => {
+export const updateTaskStatus = async (taskId: string, status: TaskStatus | string): Promise<Task | undefined> => {
   try {
+    const before = await getTaskByIdAsync(taskId);
+    if (before) assertTransitionAllowed(before.status, status);
+
+    // A task cannot start while any of its blockers are still open
+    if (getStatusCategory(status) === TaskStatus.IN_PROGRESS) {
+      const openBlockers = await getOpenBlockersForTask(taskId);
+      if (openBlockers.length > 0) {
+        const blockerTitles = openBlockers.map(blocker => `"${blocker.title}"`).join(', ');
+        throw new Error(`Cannot start this task: it is blocked by ${blockerTitles}`);
+      }
+    }
+
     const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/status`, {
       method: 'PUT',
       headers: getAuthHeaders(),
@@ -868,10 +969,19 @@ export const updateTaskStatus = async (taskId: string, status: TaskStatus): Prom
 
     if (response.ok) {
       const updatedTask = await response.json();
-      const statusMessage = status === TaskStatus.COMPLETED ? 
+      const statusMessage = isCompletedStatus(status) ? 
         'Task marked as complete' : 
-        `Task status changed to ${status}`;
+        `Task status changed to ${getWorkflowState(status).name}`;
       toast.success(statusMessage);
+      if (before) {
+        await recordTaskHistory(taskId, diffTaskFields(before, { id: taskId, status }, getCurrentUser().id));
+        await notifyWatchersOfUpdate(before, { status });
+      }
+
+      // Completing a recurring instance schedules the next one
+      if (isCompletedStatus(status) && updatedTask?.recurrence) {
+        await materializeNextOccurrence(updatedTask);
+      }
       return updatedTask;
     } else {
       const error = await response.json();
@@ -884,83 +994,1641 @@ export const updateTaskStatus = async (taskId: string, status: TaskStatus): Prom
   }
 };
 
-export const getTeamMembers = async (userId: string): Promise<User[]> => {
+// HISTORY FUNCTIONS
+
+// Get the change history of a task, oldest first
+export const getTaskHistory = async (taskId: string): Promise<TaskHistoryEntry[]> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/users/team/${userId}`, {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/history`, {
       headers: getAuthHeaders()
     });
 
     if (response.ok) {
-      const users = await response.json();
-      // Map roles to frontend format
-      return users.map((user: User) => ({
-        ...user,
-        id: user.id || user._id,
-        role: mapRoleForFrontend(user.role)
-      }));
+      const history = await response.json();
+      return Array.isArray(history) ? history : [];
     } else {
+      console.error('Failed to fetch task history:', response.status);
       return [];
     }
   } catch (error) {
-    console.error('Error fetching team members:', error);
+    console.error('Error fetching task history:', error);
     return [];
   }
 };
 
-export const addTeamMember = async (member: Omit<User, 'id'>): Promise<User> => {
+// Append field changes to a task's history. Failures are logged but never block the update itself.
+export const recordTaskHistory = async (taskId: string, entries: TaskHistoryEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+
   try {
-    // Map role to backend format before sending
-    const memberWithBackendRole = {
-      ...member,
-      role: mapRoleForBackend(member.role)
-    };
-    
-    const response = await fetch(`${API_BASE_URL}/api/users`, {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/history`, {
       method: 'POST',
       headers: getAuthHeaders(),
-      body: JSON.stringify(memberWithBackendRole)
+      body: JSON.stringify({ entries })
+    });
+
+    if (!response.ok) {
+      console.error('Failed to record task history:', response.status);
+    }
+  } catch (error) {
+    console.error('Error recording task history:', error);
+  }
+};
+
+// DEPENDENCY FUNCTIONS
+
+// Fetch the blockers of a task that are not yet completed
+export const getOpenBlockersForTask = async (taskId: string): Promise<Task[]> => {
+  const task = await getTaskByIdAsync(taskId);
+  if (!task || !task.blockedBy || task.blockedBy.length === 0) {
+    return [];
+  }
+
+  const blockers = await Promise.all(task.blockedBy.map(id => getTaskByIdAsync(id)));
+  return blockers.filter((blocker): blocker is Task => !!blocker && !isCompletedStatus(blocker.status));
+};
+
+// RECURRENCE FUNCTIONS
+
+// Get every instance of a recurring series, or undefined when it could not be loaded
+export const getTaskSeries = async (seriesId: string): Promise<Task[] | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/series/${seriesId}`, {
+      headers: getAuthHeaders()
     });
 
     if (response.ok) {
-      const newMember = await response.json();
-      // Map role back to frontend format
-      const mappedMember = {
-        ...newMember,
-        id: newMember.id || newMember._id,
-        role: mapRoleForFrontend(newMember.role)
-      };
-      
-      // Clear cache to force refresh
-      localStorage.removeItem('cachedUsers');
-      
-      toast.success('Team member added successfully');
-      return mappedMember;
+      const tasks = await response.json();
+      return Array.isArray(tasks) ? tasks : undefined;
+    } else {
+      console.error('Failed to fetch task series:', response.status);
+      return undefined;
+    }
+  } catch (error) {
+    console.error('Error fetching task series:', error);
+    return undefined;
+  }
+};
+
+// Create the next instance of a recurring task unless it already exists. It is posted to
+// the series, and the server rejects a second instance with the same occurrenceIndex (409),
+// so two viewers rolling the series over at once cannot both create it. Generated
+// instances are created quietly and keep the series' assignee without asking them to accept.
+export const materializeNextOccurrence = async (task: Task): Promise<Task | undefined> => {
+  const seriesId = task.seriesId || task.id;
+  const series = await getTaskSeries(seriesId);
+  // Without the series there is no telling whether the next instance exists
+  if (!series) return undefined;
+
+  const alreadyGenerated = series.some(t => (t.occurrenceIndex || 1) > (task.occurrenceIndex || 1));
+  if (alreadyGenerated) {
+    return undefined;
+  }
+
+  const nextOccurrence = buildNextOccurrence(task);
+  if (!nextOccurrence) {
+    console.log('Recurring series has ended:', seriesId);
+    return undefined;
+  }
+
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/series/${seriesId}/occurrences`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({
+        ...nextOccurrence,
+        acceptance: buildInheritedAcceptance(getAssigneeId(task), task.acceptance?.assignedBy || getCurrentUser().id)
+      })
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+    if (response.status !== 409) {
+      console.error('Failed to create next occurrence:', response.status);
+    }
+    return undefined;
+  } catch (error) {
+    console.error('Error creating next occurrence:', error);
+    return undefined;
+  }
+};
+
+// Roll over every recurring series whose latest instance is completed or whose next date has arrived
+const materializeDueRecurrences = async (tasks: Task[]): Promise<Task[]> => {
+  const created: Task[] = [];
+  for (const task of getLatestSeriesInstances(tasks)) {
+    if (isRecurrenceDue(task)) {
+      const newTask = await materializeNextOccurrence(task);
+      if (newTask) created.push(newTask);
+    }
+  }
+  return created;
+};
+
+// ESCALATION FUNCTIONS
+
+// Fetch the overdue escalation rules and cache them for synchronous access
+export const fetchEscalationConfig = async (): Promise<EscalationConfig> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/escalation-rules`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const config = await response.json();
+      if (config && Array.isArray(config.rules)) {
+        cacheEscalationConfig(config);
+        return config;
+      }
+    } else {
+      console.log('Escalation rules endpoint not available, using cached rules');
+    }
+  } catch (error) {
+    console.error('Error fetching escalation rules:', error);
+  }
+  return getEscalationConfig();
+};
+
+// Save the overdue escalation rules (super admin only)
+export const saveEscalationConfig = async (config: EscalationConfig): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/escalation-rules`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(config)
+    });
+
+    if (response.ok) {
+      const savedConfig = await response.json();
+      cacheEscalationConfig(savedConfig && Array.isArray(savedConfig.rules) ? savedConfig : config);
+      toast.success('Escalation rules saved');
+      return true;
     } else {
       const error = await response.json();
-      throw new Error(error.message || 'Failed to add team member');
+      throw new Error(error.message || 'Failed to save escalation rules');
     }
-  } catch (error: any) {
-    toast.error(error.message || 'Failed to add team member');
-    throw error;
+  } catch (error) {
+    console.error('Error saving escalation rules:', error);
+    toast.error(error.message || 'Failed to save escalation rules');
+    return false;
   }
 };
 
-export const generateReport = (title: string, type: 'daily' | 'weekly' | 'monthly'): Report => {
-  // TODO: Implement with real backend
-  const newReport: Report = {
-    id: `report${Date.now()}`,
-    title,
-    type,
-    generatedAt: new Date().toISOString(),
-    taskIds: []
-  };
-  toast.success('Report generated successfully');
-  return newReport;
+// Record one escalation so later sweeps don't raise it again. Several browsers can sweep the
+// same task, so the server rejects a second record for the same task, level and target date
+// with 409; only the sweep whose record was created goes on to notify.
+const recordTaskEscalation = async (taskId: string, escalation: TaskEscalation): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/escalations`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ escalation })
+    });
+
+    if (!response.ok && response.status !== 409) {
+      console.error('Failed to record task escalation:', response.status);
+    }
+    return response.ok;
+  } catch (error) {
+    console.error('Error recording task escalation:', error);
+    return false;
+  }
+};
+
+// Notify the assignee's supervisor and manager about overdue tasks that have
+// passed an escalation threshold. Returns the escalated tasks with their new
+// escalations so callers can update what they show.
+export const escalateOverdueTasks = async (tasks: Task[]): Promise<Task[]> => {
+  const overdueTasks = tasks.filter(task => isOverdue(task));
+  if (overdueTasks.length === 0) return [];
+
+  const users = await getActiveUsers();
+  if (!Array.isArray(users)) return [];
+
+  const config = getEscalationConfig();
+  const escalated: Task[] = [];
+
+  for (const task of overdueTasks) {
+    const dueEscalations = getDueEscalations(task, users, config);
+    if (dueEscalations.length === 0) continue;
+
+    const escalatedAt = new Date().toISOString();
+    const assigneeName = users.find(user => user.id === getAssigneeId(task))?.name || 'Unknown User';
+    const entries: TaskEscalation[] = [];
+
+    for (const { level, recipientId, hoursOverdue } of dueEscalations) {
+      const entry: TaskEscalation = { level, recipientId, targetDate: task.targetDate, escalatedAt };
+
+      // Record first: if that fails or another sweep got there first, notifying would repeat
+      if (!(await recordTaskEscalation(task.id, entry))) continue;
+
+      entries.push(entry);
+      await createNotification({
+        userId: recipientId,
+        type: 'task_overdue',
+        title: 'Overdue task escalated',
+        message: `"${task.title}", assigned to ${assigneeName}, is ${formatOverdueDuration(hoursOverdue)} overdue`,
+        relatedId: task.id,
+        actionUrl: '/tasks'
+      });
+    }
+
+    if (entries.length > 0) {
+      escalated.push({ ...task, escalations: [...(task.escalations || []), ...entries] });
+    }
+  }
+
+  return escalated;
+};
+
+// Background upkeep over the tasks a user can see, run once the app has loaded so no page
+// waits on it: due recurring series are rolled over, then overdue tasks are escalated.
+// Escalation only runs for the supervisors, managers and admins it goes up to.
+export const runTaskSweeps = async (user: User): Promise<void> => {
+  try {
+    const visibleTasks = await getVisibleTasks(user);
+    if (!Array.isArray(visibleTasks)) return;
+
+    const tasks = flattenTaskHierarchy(visibleTasks);
+    const generatedTasks = await materializeDueRecurrences(tasks);
+
+    if (user.role !== UserRole.MEMBER && user.role !== 'member') {
+      await escalateOverdueTasks([...tasks, ...generatedTasks]);
+    }
+  } catch (error) {
+    console.error('Error running task sweeps:', error);
+  }
+};
+
+// BULK FUNCTIONS
+
+// Apply one change to a single task without toasting, so a bulk run can report
+// every outcome together. Throws with the server's message on failure.
+const applyBulkActionToTask = async (task: Task, action: BulkAction): Promise<void> => {
+  if (action.type === 'delete') {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${task.id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Failed to delete task');
+    }
+    return;
+  }
+
+  const changes = getBulkChanges(task, action);
+  const response = action.type === 'status'
+    ? await fetch(`${API_BASE_URL}/api/tasks/${task.id}/status`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ status: action.status })
+      })
+    : await fetch(`${API_BASE_URL}/api/tasks/${task.id}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ ...task, ...changes, subtasks: undefined, ...getAssignmentFields({ ...task, ...changes }, task) })
+      });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Failed to update task');
+  }
+
+  const updatedTask = await response.json();
+  await recordTaskHistory(task.id, diffTaskFields(task, { id: task.id, ...changes }, getCurrentUser().id));
+  await notifyWatchersOfUpdate(task, changes);
+
+  if (action.type === 'status' && isCompletedStatus(action.status) && updatedTask?.recurrence) {
+    await materializeNextOccurrence(updatedTask);
+  }
+};
+
+// Apply an action to each task in turn. Tasks the current user may not change
+// are skipped, and every failure is reported against its task.
+export const applyBulkAction = async (
+  tasks: Task[],
+  action: BulkAction,
+  allTasks: Task[]
+): Promise<BulkActionResult[]> => {
+  const currentUser = getCurrentUser();
+  const results: BulkActionResult[] = [];
+  const assignableUsers = action.type === 'reassign' ? await getAssignableUsers(currentUser.id) : [];
+  const assignableUserIds = Array.isArray(assignableUsers) ? assignableUsers.map(user => user.id) : [];
+  // Deleted tasks drop out, so a parent whose subtasks were all deleted earlier in the run can go too
+  let remainingTasks = allTasks;
+
+  for (const task of orderForBulkAction(tasks, action)) {
+    const permissionError = getBulkActionError(currentUser, task, action, remainingTasks, assignableUserIds);
+    if (permissionError) {
+      results.push({ task, success: false, error: permissionError });
+      continue;
+    }
+
+    try {
+      await applyBulkActionToTask(task, action);
+      if (action.type === 'delete') {
+        remainingTasks = remainingTasks.filter(other => other.id !== task.id);
+      }
+      results.push({ task, success: true });
+    } catch (error) {
+      console.error(`Error applying bulk ${action.type} to task ${task.id}:`, error);
+      results.push({ task, success: false, error: error.message || 'Request failed' });
+    }
+  }
+
+  const succeeded = results.filter(result => result.success).length;
+  if (succeeded > 0) {
+    toast.success(describeBulkAction(action, succeeded));
+  }
+  if (succeeded < results.length) {
+    toast.error(`${results.length - succeeded} of ${results.length} tasks could not be updated`);
+  }
+  return results;
+};
+
+// IMPORT FUNCTIONS
+
+// Look up each assignee email once; emails with no matching user map to undefined
+export const resolveImportUsers = async (emails: string[]): Promise<Map<string, User | undefined>> => {
+  const users = await Promise.all(emails.map(email => getUserByEmail(email)));
+  return new Map(emails.map((email, index) => [email, users[index]]));
+};
+
+// Create the tasks from validated import rows one at a time, without a toast
+// per task, and report every outcome together
+export const importTasks = async (rows: ImportRowResult[]): Promise<ImportOutcome[]> => {
+  const outcomes: ImportOutcome[] = [];
+
+  for (const row of rows) {
+    if (!row.task) continue;
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/tasks`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ ...row.task, ...getAssignmentFields(row.task, null) })
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to create task');
+      }
+      outcomes.push({ rowNumber: row.rowNumber, task: await response.json() });
+    } catch (error) {
+      console.error(`Error importing row ${row.rowNumber}:`, error);
+      outcomes.push({ rowNumber: row.rowNumber, error: error.message || 'Request failed' });
+    }
+  }
+
+  const created = outcomes.filter(outcome => outcome.task).length;
+  if (created > 0) {
+    toast.success(`Imported ${created} task${created === 1 ? '' : 's'}`);
+  }
+  if (created < outcomes.length) {
+    toast.error(`${outcomes.length - created} of ${outcomes.length} tasks could not be imported`);
+  }
+  return outcomes;
+};
+
+// COMMENT FUNCTIONS
+
+// Get all comments on a task, replies included
+export const getTaskComments = async (taskId: string): Promise<TaskComment[]> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/comments`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const comments = await response.json();
+      return Array.isArray(comments) ? comments : [];
+    } else {
+      console.error('Failed to fetch comments:', response.status);
+      return [];
+    }
+  } catch (error) {
+    console.error('Error fetching comments:', error);
+    return [];
+  }
 };
 
-export const getReports = (): Report[] => {
-  // TODO: Implement with real backend
-  return [];
+// Add a comment, or a reply when parentId is given
+export const addTaskComment = async (
+  taskId: string,
+  text: string,
+  parentId?: string,
+  mentions: string[] = []
+): Promise<TaskComment | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/comments`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ text, parentId: parentId || null, mentions })
+    });
+
+    if (response.ok) {
+      return await response.json();
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to add comment');
+    }
+  } catch (error) {
+    console.error('Error adding comment:', error);
+    toast.error(error.message || 'Failed to add comment');
+    return undefined;
+  }
+};
+
+// Edit the text of one of the current user's comments
+export const updateTaskComment = async (
+  taskId: string,
+  commentId: string,
+  text: string,
+  mentions: string[] = []
+): Promise<TaskComment | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/comments/${commentId}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ text, mentions })
+    });
+
+    if (response.ok) {
+      return await response.json();
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to update comment');
+    }
+  } catch (error) {
+    console.error('Error updating comment:', error);
+    toast.error(error.message || 'Failed to update comment');
+    return undefined;
+  }
+};
+
+// Delete one of the current user's comments
+export const deleteTaskComment = async (taskId: string, commentId: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/comments/${commentId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      toast.success('Comment deleted');
+      return true;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to delete comment');
+    }
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    toast.error(error.message || 'Failed to delete comment');
+    return false;
+  }
+};
+
+// ATTACHMENT FUNCTIONS
+
+// Upload a file to a task. The content type is left to the browser so the multipart boundary is set.
+export const uploadTaskAttachment = async (taskId: string, file: File): Promise<TaskAttachment | undefined> => {
+  try {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/attachments`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('token')}`
+      },
+      body: formData
+    });
+
+    if (response.ok) {
+      return await response.json();
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || `Failed to upload "${file.name}"`);
+    }
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    toast.error(error.message || `Failed to upload "${file.name}"`);
+    return undefined;
+  }
+};
+
+// Download the contents of an attachment, used for both previews and saving to disk
+export const getTaskAttachmentBlob = async (taskId: string, attachmentId: string): Promise<Blob | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/attachments/${attachmentId}/download`, {
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('token')}`
+      }
+    });
+
+    if (response.ok) {
+      return await response.blob();
+    } else {
+      throw new Error('Failed to download attachment');
+    }
+  } catch (error) {
+    console.error('Error downloading attachment:', error);
+    toast.error(error.message || 'Failed to download attachment');
+    return undefined;
+  }
+};
+
+export const deleteTaskAttachment = async (taskId: string, attachmentId: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/attachments/${attachmentId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      toast.success('Attachment deleted');
+      return true;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to delete attachment');
+    }
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    toast.error(error.message || 'Failed to delete attachment');
+    return false;
+  }
+};
+
+// ESTIMATION FUNCTIONS
+
+// Fetch the organisation's estimate unit and cache it for synchronous access
+export const fetchEstimateUnit = async (): Promise<EstimateUnit> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/estimation-settings`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const settings = await response.json();
+      if (settings && isEstimateUnit(settings.unit)) {
+        cacheEstimateUnit(settings.unit);
+        return settings.unit;
+      }
+    } else {
+      console.log('Estimation settings endpoint not available, using cached unit');
+    }
+  } catch (error) {
+    console.error('Error fetching estimation settings:', error);
+  }
+  return getEstimateUnit();
+};
+
+// Save the estimate unit for everyone (super admin only)
+export const saveEstimateUnit = async (unit: EstimateUnit): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/estimation-settings`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ unit })
+    });
+
+    if (response.ok) {
+      cacheEstimateUnit(unit);
+      return true;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to save estimation settings');
+    }
+  } catch (error) {
+    console.error('Error saving estimation settings:', error);
+    toast.error(error.message || 'Failed to save estimation settings');
+    return false;
+  }
+};
+
+// TIME TRACKING FUNCTIONS
+
+// Start a timer for the current user on a task
+export const startTaskTimer = async (taskId: string): Promise<TimeEntry | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/time-entries/start`, {
+      method: 'POST',
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      toast.success('Timer started');
+      return await response.json();
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to start timer');
+    }
+  } catch (error) {
+    console.error('Error starting timer:', error);
+    toast.error(error.message || 'Failed to start timer');
+    return undefined;
+  }
+};
+
+// Stop a running timer; the backend records the final duration
+export const stopTaskTimer = async (taskId: string, entryId: string): Promise<TimeEntry | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/time-entries/${entryId}/stop`, {
+      method: 'PUT',
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      toast.success('Timer stopped');
+      return await response.json();
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to stop timer');
+    }
+  } catch (error) {
+    console.error('Error stopping timer:', error);
+    toast.error(error.message || 'Failed to stop timer');
+    return undefined;
+  }
+};
+
+// Log time by hand
+export const logTaskTime = async (
+  taskId: string,
+  entry: { startedAt: string; durationMinutes: number; note?: string }
+): Promise<TimeEntry | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/time-entries`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ ...entry, manual: true })
+    });
+
+    if (response.ok) {
+      toast.success('Time logged');
+      return await response.json();
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to log time');
+    }
+  } catch (error) {
+    console.error('Error logging time:', error);
+    toast.error(error.message || 'Failed to log time');
+    return undefined;
+  }
+};
+
+export const updateTimeEntry = async (
+  taskId: string,
+  entryId: string,
+  changes: { durationMinutes?: number; note?: string }
+): Promise<TimeEntry | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/time-entries/${entryId}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(changes)
+    });
+
+    if (response.ok) {
+      toast.success('Time entry updated');
+      return await response.json();
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to update time entry');
+    }
+  } catch (error) {
+    console.error('Error updating time entry:', error);
+    toast.error(error.message || 'Failed to update time entry');
+    return undefined;
+  }
+};
+
+export const deleteTimeEntry = async (taskId: string, entryId: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/time-entries/${entryId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      toast.success('Time entry deleted');
+      return true;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to delete time entry');
+    }
+  } catch (error) {
+    console.error('Error deleting time entry:', error);
+    toast.error(error.message || 'Failed to delete time entry');
+    return false;
+  }
+};
+
+// ACCEPTANCE FUNCTIONS
+
+// Accept or decline a task assigned to the current user. The assigner is told either way.
+export const respondToAssignment = async (task: Task, accepted: boolean, reason = ''): Promise<Task | undefined> => {
+  try {
+    const currentUser = getCurrentUser();
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${task.id}/acceptance`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({
+        status: accepted ? 'accepted' : 'declined',
+        declineReason: accepted ? undefined : reason.trim()
+      })
+    });
+
+    if (response.ok) {
+      const updatedTask = await response.json();
+      await recordTaskHistory(task.id, [buildAcceptanceHistoryEntry(task, accepted, currentUser.id, reason)]);
+
+      const assignedBy = task.acceptance?.assignedBy;
+      if (assignedBy && assignedBy !== currentUser.id) {
+        await createNotification({
+          userId: assignedBy,
+          type: 'assignment_response',
+          title: accepted ? 'Assignment accepted' : 'Assignment declined',
+          message: accepted
+            ? `${currentUser.name} accepted "${task.title}"`
+            : `${currentUser.name} declined "${task.title}": ${reason.trim()}. Reassign it to someone else.`,
+          relatedId: task.id,
+          actionUrl: '/tasks'
+        });
+      }
+      toast.success(accepted ? 'Task accepted' : 'Task declined');
+      return updatedTask;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to respond to the assignment');
+    }
+  } catch (error) {
+    console.error('Error responding to assignment:', error);
+    toast.error(error.message || 'Failed to respond to the assignment');
+    return undefined;
+  }
+};
+
+// Fetch how long an assignment may go unanswered and cache it for synchronous access
+export const fetchAcceptanceThreshold = async (): Promise<number> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/acceptance-settings`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const settings = await response.json();
+      if (settings && Number(settings.thresholdHours) > 0) {
+        cacheAcceptanceThresholdHours(Number(settings.thresholdHours));
+        return Number(settings.thresholdHours);
+      }
+    } else {
+      console.log('Acceptance settings endpoint not available, using cached threshold');
+    }
+  } catch (error) {
+    console.error('Error fetching acceptance settings:', error);
+  }
+  return getAcceptanceThresholdHours();
+};
+
+// Save the unanswered assignment threshold for everyone
+export const saveAcceptanceThreshold = async (thresholdHours: number): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/acceptance-settings`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ thresholdHours })
+    });
+
+    if (response.ok) {
+      cacheAcceptanceThresholdHours(thresholdHours);
+      return true;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to save acceptance settings');
+    }
+  } catch (error) {
+    console.error('Error saving acceptance settings:', error);
+    toast.error(error.message || 'Failed to save acceptance settings');
+    return false;
+  }
+};
+
+// REASSIGNMENT FUNCTIONS
+
+// Get reassignment requests, optionally only those for one task, approver or status
+export const getReassignmentRequests = async (filters: {
+  taskId?: string;
+  approverId?: string;
+  status?: ReassignmentRequestStatus;
+} = {}): Promise<ReassignmentRequest[]> => {
+  try {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+
+    const response = await fetch(`${API_BASE_URL}/api/reassignment-requests?${params.toString()}`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const requests = await response.json();
+      return Array.isArray(requests) ? requests : [];
+    } else {
+      console.error('Failed to fetch reassignment requests:', response.status);
+      return [];
+    }
+  } catch (error) {
+    console.error('Error fetching reassignment requests:', error);
+    return [];
+  }
+};
+
+// Ask the task's creator or the current user's supervisor to move a task to someone else
+export const requestReassignment = async (
+  task: Task,
+  suggestedAssigneeId: string,
+  reason: string
+): Promise<ReassignmentRequest | undefined> => {
+  try {
+    const currentUser = getCurrentUser();
+    const approverId = getReassignmentApproverId(task, currentUser);
+    if (!approverId) {
+      throw new Error('There is nobody to approve a reassignment of this task');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/reassignment-requests`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({
+        taskId: task.id,
+        taskTitle: task.title,
+        currentAssigneeId: getAssigneeId(task),
+        suggestedAssigneeId,
+        reason: reason.trim(),
+        approverId
+      })
+    });
+
+    if (response.ok) {
+      const request: ReassignmentRequest = await response.json();
+      await recordTaskHistory(task.id, [
+        buildReassignmentHistoryEntry(request, 'reassignment_requested', currentUser.id, request.reason)
+      ]);
+      await createNotification({
+        userId: approverId,
+        type: 'reassignment_requested',
+        title: 'Reassignment requested',
+        message: `${currentUser.name} asked for "${task.title}" to go to ${getUserById(suggestedAssigneeId)?.name || 'someone else'}: ${request.reason}`,
+        relatedId: task.id,
+        actionUrl: '/tasks'
+      });
+      toast.success(`Request sent to ${getUserById(approverId)?.name || 'the approver'}`);
+      return request;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to request reassignment');
+    }
+  } catch (error) {
+    console.error('Error requesting reassignment:', error);
+    toast.error(error.message || 'Failed to request reassignment');
+    return undefined;
+  }
+};
+
+// Approve or reject a request. Approving reassigns the task before the decision is saved,
+// so a failed update leaves the request pending. If the task already went to the suggested
+// assignee (the decision failed to save last time), approving again only saves the decision.
+export const decideReassignmentRequest = async (
+  request: ReassignmentRequest,
+  approved: boolean,
+  note = ''
+): Promise<ReassignmentRequest | undefined> => {
+  try {
+    const currentUser = getCurrentUser();
+
+    if (approved) {
+      const task = await getTaskByIdAsync(request.taskId);
+      if (!task) {
+        throw new Error('The task no longer exists');
+      }
+      const assigneeId = getAssigneeId(task);
+      if (assigneeId !== request.suggestedAssigneeId) {
+        if (assigneeId !== request.currentAssigneeId) {
+          throw new Error('The task has been reassigned since this request was made');
+        }
+        const assignableUsers = await getAssignableUsers(currentUser.id);
+        if (!assignableUsers.some(user => user.id === request.suggestedAssigneeId)) {
+          throw new Error(`You can't assign tasks to ${getUserById(request.suggestedAssigneeId)?.name || 'the suggested assignee'}`);
+        }
+        // updateTask reports its own failures and records the reassignment in the history
+        const reassigned = await updateTask(
+          { ...task, assigneeId: request.suggestedAssigneeId, subtasks: undefined, lastUpdated: new Date().toISOString() },
+          task
+        ).catch(() => undefined);
+        if (!reassigned) return undefined;
+      }
+    }
+
+    const status: ReassignmentRequestStatus = approved ? 'approved' : 'rejected';
+    const response = await fetch(`${API_BASE_URL}/api/reassignment-requests/${request.id}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ status, decisionNote: note.trim() || undefined })
+    });
+
+    if (response.ok) {
+      const decided: ReassignmentRequest = await response.json();
+      await recordTaskHistory(request.taskId, [
+        buildReassignmentHistoryEntry(request, approved ? 'reassignment_approved' : 'reassignment_rejected', currentUser.id, note)
+      ]);
+      await createNotification({
+        userId: request.requestedBy,
+        type: 'reassignment_decided',
+        title: approved ? 'Reassignment approved' : 'Reassignment rejected',
+        message: `${currentUser.name} ${status} your request to reassign "${request.taskTitle}"${note.trim() ? `: ${note.trim()}` : ''}`,
+        relatedId: request.taskId,
+        actionUrl: '/tasks'
+      });
+      if (!approved) toast.success('Reassignment request rejected');
+      return decided;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to save the decision');
+    }
+  } catch (error) {
+    console.error('Error deciding reassignment request:', error);
+    toast.error(error.message || 'Failed to save the decision');
+    return undefined;
+  }
+};
+
+// WATCHER FUNCTIONS
+
+// Add users to a task's watchers, the current user by default. Returns the updated watcher IDs.
+export const followTask = async (taskId: string, userIds: string[] = [getCurrentUser().id]): Promise<string[] | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/watchers`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ userIds })
+    });
+
+    if (response.ok) {
+      const watchers = await response.json();
+      return Array.isArray(watchers) ? watchers : undefined;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to follow task');
+    }
+  } catch (error) {
+    console.error('Error following task:', error);
+    toast.error(error.message || 'Failed to follow task');
+    return undefined;
+  }
+};
+
+// Stop the current user following a task. Returns the updated watcher IDs.
+export const unfollowTask = async (taskId: string): Promise<string[] | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}/watchers/${getCurrentUser().id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const watchers = await response.json();
+      return Array.isArray(watchers) ? watchers : undefined;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to unfollow task');
+    }
+  } catch (error) {
+    console.error('Error unfollowing task:', error);
+    toast.error(error.message || 'Failed to unfollow task');
+    return undefined;
+  }
+};
+
+// Send a notification to every watcher of a task except the current user
+const notifyTaskWatchers = async (
+  task: Task,
+  notification: Pick<Notification, 'type' | 'title' | 'message'>,
+  excludeIds: string[] = []
+): Promise<void> => {
+  const recipients = getWatchersToNotify(task, getCurrentUser().id, excludeIds);
+
+  await Promise.all(recipients.map(userId =>
+    createNotification({
+      ...notification,
+      userId,
+      relatedId: task.id,
+      actionUrl: '/tasks'
+    })
+  ));
+};
+
+// Tell watchers about a reassignment or status change. The new assignee starts following the task.
+const notifyWatchersOfUpdate = async (before: Task, changes: Partial<Task>): Promise<void> => {
+  const currentUser = getCurrentUser();
+  let task = before;
+
+  const previousAssigneeId = getAssigneeId(before);
+  const assigneeId = changes.assigneeId ? getAssigneeId(changes as Task) : previousAssigneeId;
+  if (assigneeId !== previousAssigneeId) {
+    const watchers = await followTask(before.id, [assigneeId]);
+    task = { ...before, watchers: watchers || addWatcherIds(getWatcherIds(before), [assigneeId]) };
+
+    const fromName = getUserById(previousAssigneeId)?.name || 'Unknown User';
+    const toName = getUserById(assigneeId)?.name || 'Unknown User';
+    await notifyTaskWatchers(task, {
+      type: 'task_reassigned',
+      title: 'Task reassigned',
+      message: `${currentUser.name} reassigned "${before.title}" from ${fromName} to ${toName}`
+    });
+  }
+
+  if (changes.status && changes.status !== before.status) {
+    await notifyTaskWatchers(task, {
+      type: isCompletedStatus(changes.status) ? 'task_completed' : 'status_changed',
+      title: isCompletedStatus(changes.status) ? 'Task completed' : 'Task status changed',
+      message: `${currentUser.name} moved "${before.title}" from ${getWorkflowState(before.status).name} to ${getWorkflowState(changes.status).name}`
+    });
+  }
+};
+
+// The commenter starts following the task and the other watchers are told about the
+// comment. Mentioned users already had a mention notification. Returns the updated
+// watcher IDs when the commenter was not following yet.
+export const notifyWatchersOfComment = async (task: Task, mentions: string[] = []): Promise<string[] | undefined> => {
+  const currentUser = getCurrentUser();
+  const watchers = isWatching(task, currentUser.id) ? undefined : await followTask(task.id);
+
+  await notifyTaskWatchers(task, {
+    type: 'comment_added',
+    title: 'New comment',
+    message: `${currentUser.name} commented on "${task.title}"`
+  }, mentions);
+  return watchers;
+};
+
+// NOTIFICATION FUNCTIONS
+
+// Create a notification for another user
+export const createNotification = async (
+  notification: Omit<Notification, 'id' | 'read' | 'createdAt'>
+): Promise<Notification | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/notifications`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(notification)
+    });
+
+    if (response.ok) {
+      return await response.json();
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to create notification');
+    }
+  } catch (error) {
+    console.error('Error creating notification:', error);
+    return undefined;
+  }
+};
+
+// Users the current user is allowed to @mention
+export const fetchMentionableUsers = async (): Promise<User[]> => {
+  const users = await getActiveUsers();
+  return getMentionableUsers(getCurrentUser(), Array.isArray(users) ? users : []);
+};
+
+// Send a comment_added notification to each user mentioned on a task. Only users the
+// current user may mention are notified, whatever IDs the caller passes.
+export const notifyMentionedUsers = async (
+  task: Task,
+  userIds: string[],
+  source: 'comment' | 'remarks'
+): Promise<void> => {
+  if (userIds.length === 0) return;
+
+  const currentUser = getCurrentUser();
+  const mentionableIds = new Set((await fetchMentionableUsers()).map(user => user.id));
+  const recipients = Array.from(new Set(userIds)).filter(id => id !== currentUser.id && mentionableIds.has(id));
+
+  await Promise.all(recipients.map(userId =>
+    createNotification({
+      userId,
+      type: 'comment_added',
+      title: 'You were mentioned',
+      message: source === 'comment'
+        ? `${currentUser.name} mentioned you in a comment on "${task.title}"`
+        : `${currentUser.name} mentioned you in the remarks of "${task.title}"`,
+      relatedId: task.id,
+      actionUrl: '/tasks'
+    })
+  ));
+};
+
+// SUBTASK FUNCTIONS
+
+// Create a subtask under an existing parent task. A subtask left with the parent's
+// assignee needs no separate acceptance.
+export const addSubtask = async (
+  parent: Task,
+  taskData: Omit<Task, 'id' | 'lastUpdated' | 'parentTaskId'>
+): Promise<Task> => {
+  return addTask({ ...taskData, parentTaskId: parent.id }, getAssigneeId(parent));
+};
+
+// Persist the order of a parent's subtasks
+export const reorderSubtasks = async (parentTaskId: string, subtaskIds: string[]): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tasks/${parentTaskId}/subtasks/order`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ subtaskIds })
+    });
+
+    if (response.ok) {
+      return true;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to reorder subtasks');
+    }
+  } catch (error) {
+    console.error('Error reordering subtasks:', error);
+    toast.error(error.message || 'Failed to reorder subtasks');
+    return false;
+  }
+};
+
+export const getTeamMembers = async (userId: string): Promise<User[]> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/users/team/${userId}`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const users = await response.json();
+      // Map roles to frontend format
+      return users.map((user: User) => ({
+        ...user,
+        id: user.id || user._id,
+        role: mapRoleForFrontend(user.role)
+      }));
+    } else {
+      return [];
+    }
+  } catch (error) {
+    console.error('Error fetching team members:', error);
+    return [];
+  }
+};
+
+export const addTeamMember = async (member: Omit<User, 'id'>): Promise<User> => {
+  try {
+    // Map role to backend format before sending
+    const memberWithBackendRole = {
+      ...member,
+      role: mapRoleForBackend(member.role)
+    };
+    
+    const response = await fetch(`${API_BASE_URL}/api/users`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(memberWithBackendRole)
+    });
+
+    if (response.ok) {
+      const newMember = await response.json();
+      // Map role back to frontend format
+      const mappedMember = {
+        ...newMember,
+        id: newMember.id || newMember._id,
+        role: mapRoleForFrontend(newMember.role)
+      };
+      
+      // Clear cache to force refresh
+      localStorage.removeItem('cachedUsers');
+      
+      toast.success('Team member added successfully');
+      return mappedMember;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to add team member');
+    }
+  } catch (error: any) {
+    toast.error(error.message || 'Failed to add team member');
+    throw error;
+  }
+};
+
+// WORKFLOW FUNCTIONS
+
+// Fetch the workflow configuration and cache it for synchronous access
+export const fetchWorkflowConfig = async (): Promise<WorkflowConfig> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/workflow`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const config = await response.json();
+      if (config && Array.isArray(config.states) && config.states.length > 0) {
+        cacheWorkflowConfig(config);
+        return config;
+      }
+    } else {
+      console.log('Workflow endpoint not available, using cached workflow');
+    }
+  } catch (error) {
+    console.error('Error fetching workflow config:', error);
+  }
+  return getWorkflowConfig();
+};
+
+// Save the workflow configuration (super admin only)
+export const saveWorkflowConfig = async (config: WorkflowConfig): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/workflow`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(config)
+    });
+
+    if (response.ok) {
+      const savedConfig = await response.json();
+      cacheWorkflowConfig(savedConfig && Array.isArray(savedConfig.states) ? savedConfig : config);
+      toast.success('Workflow saved successfully');
+      return true;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to save workflow');
+    }
+  } catch (error) {
+    console.error('Error saving workflow config:', error);
+    toast.error(error.message || 'Failed to save workflow');
+    return false;
+  }
+};
+
+// TAG FUNCTIONS
+
+// Load the tag catalogue and cache it for colours and suggestions
+export const fetchTagCatalog = async (): Promise<TaskTag[]> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tags`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const tags = await response.json();
+      if (Array.isArray(tags)) {
+        const catalog = tags.map((tag: TaskTag & { _id?: string }) => ({ ...tag, id: tag.id || tag._id }));
+        cacheTagCatalog(catalog);
+        return catalog;
+      }
+    } else {
+      console.log('Tags endpoint not available, using cached tags');
+    }
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+  }
+  return getTagCatalog();
+};
+
+// Create a catalogue tag, or update it when it already has an ID (super admin only)
+export const saveTag = async (tag: Omit<TaskTag, 'id'> & { id?: string }): Promise<TaskTag | undefined> => {
+  try {
+    const url = tag.id ? `${API_BASE_URL}/api/tags/${tag.id}` : `${API_BASE_URL}/api/tags`;
+    const response = await fetch(url, {
+      method: tag.id ? 'PUT' : 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(tag)
+    });
+
+    if (response.ok) {
+      const savedTag = await response.json();
+      const normalized = { ...savedTag, id: savedTag.id || savedTag._id };
+      const catalog = getTagCatalog();
+      cacheTagCatalog(catalog.some(t => t.id === normalized.id)
+        ? catalog.map(t => t.id === normalized.id ? normalized : t)
+        : [...catalog, normalized]);
+      return normalized;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to save tag');
+    }
+  } catch (error) {
+    console.error('Error saving tag:', error);
+    toast.error(error.message || 'Failed to save tag');
+    return undefined;
+  }
+};
+
+export const deleteTag = async (tagId: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tags/${tagId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      cacheTagCatalog(getTagCatalog().filter(tag => tag.id !== tagId));
+      return true;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to delete tag');
+    }
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    toast.error(error.message || 'Failed to delete tag');
+    return false;
+  }
+};
+
+// Replace tag names on every task that uses them, e.g. when renaming or merging.
+// Matching ignores case so stray spellings are cleaned up too.
+export const replaceTagOnTasks = async (fromNames: string[], toName: string): Promise<BulkActionResult[]> => {
+  const wanted = fromNames.map(name => name.toLowerCase());
+  const tasks = await getAllTasks();
+  const affected = tasks.filter(task => (task.tags || []).some(tag => wanted.includes(tag.toLowerCase())));
+  if (affected.length === 0) return [];
+
+  const remove = Array.from(new Set(affected.flatMap(task =>
+    (task.tags || []).filter(tag => wanted.includes(tag.toLowerCase()) && tag !== toName)
+  )));
+  return applyBulkAction(affected, { type: 'tags', add: [toName], remove }, tasks);
+};
+
+// TEMPLATE FUNCTIONS
+
+const normalizeTemplate = (template: TaskTemplate): TaskTemplate => ({
+  ...template,
+  id: template.id || (template as TaskTemplate & { _id?: string })._id
+});
+
+// Get the shared task templates
+export const getTaskTemplates = async (): Promise<TaskTemplate[]> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/task-templates`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const templates = await response.json();
+      return Array.isArray(templates) ? templates.map(normalizeTemplate) : [];
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to load templates');
+    }
+  } catch (error) {
+    console.error('Error fetching task templates:', error);
+    return [];
+  }
+};
+
+// Create a template, or update it when it already has an ID (admins and managers only)
+export const saveTaskTemplate = async (template: Omit<TaskTemplate, 'id'> & { id?: string }): Promise<TaskTemplate | undefined> => {
+  try {
+    const url = template.id
+      ? `${API_BASE_URL}/api/task-templates/${template.id}`
+      : `${API_BASE_URL}/api/task-templates`;
+    const response = await fetch(url, {
+      method: template.id ? 'PUT' : 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(template)
+    });
+
+    if (response.ok) {
+      const savedTemplate = await response.json();
+      toast.success(`Template "${template.name}" saved`);
+      return normalizeTemplate(savedTemplate);
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to save template');
+    }
+  } catch (error) {
+    console.error('Error saving task template:', error);
+    toast.error(error.message || 'Failed to save template');
+    return undefined;
+  }
+};
+
+export const deleteTaskTemplate = async (templateId: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/task-templates/${templateId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      toast.success('Template deleted');
+      return true;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to delete template');
+    }
+  } catch (error) {
+    console.error('Error deleting task template:', error);
+    toast.error(error.message || 'Failed to delete template');
+    return false;
+  }
+};
+
+// SAVED VIEW FUNCTIONS
+
+// Get the current user's saved task views
+export const getSavedTaskViews = async (): Promise<SavedTaskView[]> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/task-views`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const views = await response.json();
+      return Array.isArray(views)
+        ? views.map((view: SavedTaskView & { _id?: string }) => ({ ...view, id: view.id || view._id }))
+        : [];
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to load saved views');
+    }
+  } catch (error) {
+    console.error('Error fetching saved views:', error);
+    return [];
+  }
+};
+
+// Create a view, or update it when it already has an ID
+export const saveTaskView = async (view: Omit<SavedTaskView, 'id' | 'userId'> & { id?: string }): Promise<SavedTaskView | undefined> => {
+  try {
+    const url = view.id ? `${API_BASE_URL}/api/task-views/${view.id}` : `${API_BASE_URL}/api/task-views`;
+    const response = await fetch(url, {
+      method: view.id ? 'PUT' : 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ ...view, userId: getCurrentUser().id })
+    });
+
+    if (response.ok) {
+      const savedView = await response.json();
+      return { ...savedView, id: savedView.id || savedView._id };
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to save view');
+    }
+  } catch (error) {
+    console.error('Error saving view:', error);
+    toast.error(error.message || 'Failed to save view');
+    return undefined;
+  }
+};
+
+export const deleteTaskView = async (viewId: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/task-views/${viewId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      return true;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to delete view');
+    }
+  } catch (error) {
+    console.error('Error deleting view:', error);
+    toast.error(error.message || 'Failed to delete view');
+    return false;
+  }
+};
+
+// CALENDAR FEED FUNCTIONS
+
+// The current user's calendar feed, or null when they don't have one
+export const getCalendarFeed = async (): Promise<CalendarFeed | null> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/calendar-feed`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const feed = await response.json();
+      return feed?.url ? feed : null;
+    } else if (response.status === 404) {
+      return null;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to load calendar feed');
+    }
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    return null;
+  }
+};
+
+// Create a feed URL, replacing any existing one so the old URL stops working
+export const regenerateCalendarFeed = async (): Promise<CalendarFeed | null> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/calendar-feed`, {
+      method: 'POST',
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      toast.success('Calendar feed URL created');
+      return await response.json();
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to create calendar feed');
+    }
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    toast.error(error.message || 'Failed to create calendar feed');
+    return null;
+  }
+};
+
+export const revokeCalendarFeed = async (): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/calendar-feed`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      toast.success('Calendar feed URL revoked');
+      return true;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to revoke calendar feed');
+    }
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+    toast.error(error.message || 'Failed to revoke calendar feed');
+    return false;
+  }
+};
+
+// Save a report over the given tasks. The summary, logged time included, is stored with it
+// so the report keeps showing the figures from when it was generated.
+export const generateReport = async (
+  title: string,
+  type: 'daily' | 'weekly' | 'monthly',
+  tasks: Task[]
+): Promise<Report | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/reports`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({
+        title,
+        type,
+        generatedAt: new Date().toISOString(),
+        createdBy: getCurrentUser().id,
+        taskIds: tasks.map(task => task.id),
+        summary: calculateReportSummary(tasks)
+      })
+    });
+
+    if (response.ok) {
+      const report = await response.json();
+      toast.success('Report generated successfully');
+      return report;
+    } else {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to generate report');
+    }
+  } catch (error) {
+    console.error('Error generating report:', error);
+    toast.error(error.message || 'Failed to generate report');
+    return undefined;
+  }
+};
+
+export const getReports = async (): Promise<Report[]> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/reports`, {
+      headers: getAuthHeaders()
+    });
+
+    if (response.ok) {
+      const reports = await response.json();
+      return Array.isArray(reports) ? reports : [];
+    } else {
+      console.error('Failed to fetch reports:', response.status);
+      return [];
+    }
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    return [];
+  }
 };
 
 // UTILITY FUNCTIONS
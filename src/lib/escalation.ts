@@ -0,0 +1,132 @@
+import { EscalationConfig, EscalationLevel, EscalationStep, Task, TaskEscalation, TaskPriority, User } from "./types";
+import { getAssigneeId, isOverdue } from "./taskFilters";
+
+const ESCALATION_STORAGE_KEY = 'escalationConfig';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Used until an admin configures escalation. Low priority tasks never escalate.
+export const DEFAULT_ESCALATION_CONFIG: EscalationConfig = {
+  rules: [
+    { priority: TaskPriority.URGENT, steps: [{ level: 'supervisor', afterHours: 4 }, { level: 'manager', afterHours: 24 }] },
+    { priority: TaskPriority.HIGH, steps: [{ level: 'supervisor', afterHours: 24 }, { level: 'manager', afterHours: 72 }] },
+    { priority: TaskPriority.MEDIUM, steps: [{ level: 'supervisor', afterHours: 72 }] },
+    { priority: TaskPriority.LOW, steps: [] },
+  ],
+};
+
+export const ESCALATION_LEVELS: { value: EscalationLevel; label: string }[] = [
+  { value: 'supervisor', label: 'Supervisor' },
+  { value: 'manager', label: 'Manager' },
+];
+
+export interface DueEscalation {
+  level: EscalationLevel;
+  recipientId: string;
+  hoursOverdue: number;
+}
+
+// Get the escalation rules synchronously from the local cache (see fetchEscalationConfig)
+export function getEscalationConfig(): EscalationConfig {
+  try {
+    const cached = localStorage.getItem(ESCALATION_STORAGE_KEY);
+    if (cached) {
+      const config = JSON.parse(cached) as EscalationConfig;
+      if (Array.isArray(config.rules)) return config;
+    }
+  } catch (error) {
+    console.error('Error reading cached escalation rules:', error);
+  }
+  return DEFAULT_ESCALATION_CONFIG;
+}
+
+export function cacheEscalationConfig(config: EscalationConfig): void {
+  try {
+    localStorage.setItem(ESCALATION_STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Error caching escalation rules:', error);
+  }
+}
+
+// Steps for a priority, earliest first. Tasks without a priority count as medium.
+export function getEscalationSteps(priority: string | undefined, config: EscalationConfig = getEscalationConfig()): EscalationStep[] {
+  const rule = config.rules.find(r => r.priority === (priority || TaskPriority.MEDIUM));
+  return [...(rule?.steps || [])].sort((a, b) => a.afterHours - b.afterHours);
+}
+
+export function getHoursOverdue(task: Task, now: Date = new Date()): number {
+  if (!isOverdue(task, now)) return 0;
+  return (now.getTime() - new Date(task.targetDate).getTime()) / HOUR_MS;
+}
+
+// Who is notified at a level, walking up from the assignee. When a level is
+// missing (a member reporting straight to a manager, say) the next person up
+// the chain is used so the escalation is not lost.
+export function resolveEscalationRecipient(assignee: User, level: EscalationLevel, users: User[]): User | undefined {
+  const findUser = (id?: string) => id ? users.find(user => user.id === id) : undefined;
+  const supervisor = findUser(assignee.supervisorId);
+  const manager = findUser(assignee.managerId) || findUser(supervisor?.managerId);
+
+  return level === 'supervisor' ? supervisor || manager : manager;
+}
+
+// Escalations already raised for the task's current target date
+export function getCurrentEscalations(task: Task): TaskEscalation[] {
+  return (task.escalations || []).filter(escalation => escalation.targetDate === task.targetDate);
+}
+
+// Steps whose threshold has passed and which have not been raised yet. A
+// person is never notified twice about the same missed date, even when two
+// levels resolve to them.
+export function getDueEscalations(
+  task: Task,
+  users: User[],
+  config: EscalationConfig = getEscalationConfig(),
+  now: Date = new Date()
+): DueEscalation[] {
+  const hoursOverdue = getHoursOverdue(task, now);
+  if (hoursOverdue <= 0) return [];
+
+  const assignee = users.find(user => user.id === getAssigneeId(task));
+  if (!assignee) return [];
+
+  const raised = getCurrentEscalations(task);
+  const notified = new Set(raised.map(escalation => escalation.recipientId));
+  const due: DueEscalation[] = [];
+
+  getEscalationSteps(task.priority, config)
+    .filter(step => hoursOverdue >= step.afterHours)
+    .filter(step => !raised.some(escalation => escalation.level === step.level))
+    .forEach(step => {
+      const recipient = resolveEscalationRecipient(assignee, step.level, users);
+      if (!recipient || recipient.id === assignee.id || notified.has(recipient.id)) return;
+
+      notified.add(recipient.id);
+      due.push({ level: step.level, recipientId: recipient.id, hoursOverdue });
+    });
+
+  return due;
+}
+
+// "5h" for the first day, then whole days
+export function formatOverdueDuration(hours: number): string {
+  if (hours < 24) return `${Math.floor(hours)}h`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+export function validateEscalationConfig(config: EscalationConfig): { isValid: boolean; error?: string } {
+  for (const rule of config.rules) {
+    for (const step of rule.steps) {
+      if (!Number.isFinite(step.afterHours) || step.afterHours < 0) {
+        return { isValid: false, error: `Escalation hours for ${rule.priority} tasks must be zero or more` };
+      }
+    }
+    const supervisorStep = rule.steps.find(step => step.level === 'supervisor');
+    const managerStep = rule.steps.find(step => step.level === 'manager');
+    if (supervisorStep && managerStep && managerStep.afterHours < supervisorStep.afterHours) {
+      return { isValid: false, error: `The manager should not be notified before the supervisor for ${rule.priority} tasks` };
+    }
+  }
+  return { isValid: true };
+}
@@ -0,0 +1,36 @@
+import { EstimateUnit, Task } from "./types";
+import { isCompletedStatus } from "./workflow";
+
+const ESTIMATE_UNIT_STORAGE_KEY = 'estimateUnit';
+
+export const ESTIMATE_UNITS: { value: EstimateUnit; label: string; short: string }[] = [
+  { value: 'hours', label: 'Hours', short: 'h' },
+  { value: 'points', label: 'Story points', short: 'pts' },
+];
+
+export function isEstimateUnit(value: unknown): value is EstimateUnit {
+  return ESTIMATE_UNITS.some(unit => unit.value === value);
+}
+
+// The unit is kept on the server; this reads the copy cached on the last fetch
+export function getEstimateUnit(): EstimateUnit {
+  const stored = localStorage.getItem(ESTIMATE_UNIT_STORAGE_KEY);
+  return stored === 'points' ? 'points' : 'hours';
+}
+
+export function cacheEstimateUnit(unit: EstimateUnit): void {
+  localStorage.setItem(ESTIMATE_UNIT_STORAGE_KEY, unit);
+}
+
+// Format an effort value in the configured unit, e.g. "4.5h" or "3 pts"
+export function formatEffort(value: number, unit: EstimateUnit = getEstimateUnit()): string {
+  const rounded = Math.round(value * 10) / 10;
+  return unit === 'points' ? `${rounded} pts` : `${rounded}h`;
+}
+
+// Effort still left on a task. Completed tasks have none; otherwise the
+// remaining effort falls back to the original estimate.
+export function getRemainingEffort(task: Task): number {
+  if (isCompletedStatus(task.status)) return 0;
+  return task.remainingEffort ?? task.estimate ?? 0;
+}
@@ -0,0 +1,113 @@
+import { addDays, format } from "date-fns";
+import { Task, TaskPriority, TaskStatus } from "./types";
+import { getStatusCategory, getWorkflowState } from "./workflow";
+import { formatPriority } from "./utils";
+
+// VEVENT puts a task on its target date as an all-day event; VTODO makes it a
+// to-do that is due then. Not every calendar client shows to-dos.
+export type ICalComponent = 'VEVENT' | 'VTODO';
+
+export const ICAL_MIME_TYPE = 'text/calendar';
+
+const PRODID = '-//Taskberry//Tasks//EN';
+
+// RFC 5545 priorities run from 1 (highest) to 9 (lowest)
+const ICAL_PRIORITIES: Record<string, number> = {
+  [TaskPriority.URGENT]: 1,
+  [TaskPriority.HIGH]: 3,
+  [TaskPriority.MEDIUM]: 5,
+  [TaskPriority.LOW]: 9,
+};
+
+const TODO_STATUSES: Record<TaskStatus, string> = {
+  [TaskStatus.NOT_STARTED]: 'NEEDS-ACTION',
+  [TaskStatus.IN_PROGRESS]: 'IN-PROCESS',
+  [TaskStatus.COMPLETED]: 'COMPLETED',
+};
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 characters continue on the next line after a space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i === 0 ? 75 : i + 74));
+  }
+  return parts.join('\r\n ');
+};
+
+const formatUtcDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatLocalDate = (date: Date): string => format(date, 'yyyyMMdd');
+
+const describeTask = (task: Task): string => {
+  const lines = [
+    `Status: ${getWorkflowState(task.status).name}`,
+    task.priority ? `Priority: ${formatPriority(task.priority)}` : '',
+    task.description || ''
+  ];
+  return lines.filter(Boolean).join('\n');
+};
+
+function buildComponent(task: Task, component: ICalComponent, stamp: string): string[] {
+  const targetDate = new Date(task.targetDate);
+  const category = getStatusCategory(task.status);
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${task.id}@taskberry`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(task.title)}`,
+    `DESCRIPTION:${escapeText(describeTask(task))}`
+  ];
+
+  if (component === 'VEVENT') {
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatLocalDate(targetDate)}`,
+      `DTEND;VALUE=DATE:${formatLocalDate(addDays(targetDate, 1))}`,
+      'TRANSP:TRANSPARENT'
+    );
+  } else {
+    if (task.assignedDate) lines.push(`DTSTART:${formatUtcDateTime(new Date(task.assignedDate))}`);
+    lines.push(`DUE:${formatUtcDateTime(targetDate)}`, `STATUS:${TODO_STATUSES[category]}`);
+    if (category === TaskStatus.COMPLETED) {
+      lines.push('PERCENT-COMPLETE:100');
+      if (task.completedDate) lines.push(`COMPLETED:${formatUtcDateTime(new Date(task.completedDate))}`);
+    }
+  }
+
+  if (task.priority && ICAL_PRIORITIES[task.priority]) {
+    lines.push(`PRIORITY:${ICAL_PRIORITIES[task.priority]}`);
+  }
+  if (task.tags?.length) {
+    lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+  }
+  if (task.lastUpdated) {
+    lines.push(`LAST-MODIFIED:${formatUtcDateTime(new Date(task.lastUpdated))}`);
+  }
+  lines.push(`END:${component}`);
+
+  return lines;
+}
+
+// An iCalendar document with one entry per task that has a target date
+export function buildICalendar(tasks: Task[], component: ICalComponent, calendarName: string, now: Date = new Date()): string {
+  const stamp = formatUtcDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...tasks.filter(task => task.targetDate).flatMap(task => buildComponent(task, component, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,91 @@
+import { User, UserRole } from "./types";
+
+export interface MentionQuery {
+  query: string; // Text typed after the @
+  start: number; // Index of the @ in the text
+}
+
+// Whether `viewer` may mention `target`. Super admins and managers can reach
+// anyone; everyone else is limited to their own reporting chain: the people
+// above them, the people reporting to them, and peers sharing a supervisor
+// or manager.
+export function isInMentionChain(viewer: User, target: User): boolean {
+  if (viewer.id === target.id) return false;
+
+  const role = String(viewer.role);
+  if (role === UserRole.SUPER_ADMIN || role === UserRole.MANAGER) return true;
+
+  if (target.id === viewer.supervisorId || target.id === viewer.managerId) return true;
+  if (target.supervisorId === viewer.id || target.managerId === viewer.id) return true;
+  if (viewer.supervisorId && target.supervisorId === viewer.supervisorId) return true;
+  if (role === UserRole.SUPERVISOR && viewer.managerId && target.managerId === viewer.managerId) return true;
+
+  return false;
+}
+
+export function getMentionableUsers(viewer: User, users: User[]): User[] {
+  return users
+    .filter(user => isInMentionChain(viewer, user))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// The @query the caret is currently inside, if any
+export function findMentionQuery(text: string, caret: number): MentionQuery | null {
+  const beforeCaret = text.slice(0, caret);
+  const match = /(^|\s)@([^\s@]*)$/.exec(beforeCaret);
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
+
+// Replace the active @query with the user's name
+export function insertMention(text: string, mention: MentionQuery, caret: number, user: User): { text: string; caret: number } {
+  const inserted = `@${user.name} `;
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(caret),
+    caret: mention.start + inserted.length
+  };
+}
+
+// Matches @Name for any of the users, longest names first, and only when the name
+// ends at a non-word character or the end of the text, so "@Samantha Lee" is not
+// also read as a mention of "Sam"
+const buildMentionPattern = (users: User[]): RegExp | null => {
+  const names = users
+    .filter(user => user.name)
+    .map(user => user.name)
+    .sort((a, b) => b.length - a.length);
+  if (names.length === 0) return null;
+
+  const escaped = names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`@(${escaped.join('|')})(?![\\p{L}\\p{N}_])`, 'gu');
+};
+
+// IDs of the users whose @Name appears in the text. Pass only the users picked from the
+// autocomplete, so a typed or pasted name, or a name two users share, can't reach anyone else.
+export function resolveMentions(text: string, users: User[]): string[] {
+  if (!text.includes('@')) return [];
+  const pattern = buildMentionPattern(users);
+  if (!pattern) return [];
+
+  const mentionedNames = new Set(Array.from(text.matchAll(pattern), match => match[1]));
+  return users
+    .filter(user => user.name && mentionedNames.has(user.name))
+    .map(user => user.id);
+}
+
+// Split text into plain and mention segments for highlighting
+export function splitMentions(text: string, users: User[]): { text: string; userId?: string }[] {
+  const pattern = text.includes('@') ? buildMentionPattern(users) : null;
+  if (!pattern) return [{ text }];
+
+  const segments: { text: string; userId?: string }[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    const user = users.find(u => u.name === match[1]);
+    if (match.index > lastIndex) segments.push({ text: text.slice(lastIndex, match.index) });
+    segments.push({ text: match[0], userId: user?.id });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex) });
+  return segments.length > 0 ? segments : [{ text }];
+}
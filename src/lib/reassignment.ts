@@ -0,0 +1,50 @@
+import { ReassignmentRequest, Task, TaskHistoryEntry, TaskHistoryEvent, User, UserRole } from "./types";
+import { calculatePermissions } from "./taskPermissions";
+import { getAssigneeId } from "./taskFilters";
+import { isCompletedStatus } from "./workflow";
+
+// The task's creator decides, unless the requester created it; then it goes up to their supervisor or manager
+export function getReassignmentApproverId(task: Task, requester: User): string | undefined {
+  if (task.createdBy && task.createdBy !== requester.id) return task.createdBy;
+  return requester.supervisorId || requester.managerId || undefined;
+}
+
+// Users who can't change the assignee themselves ask for it instead
+export function canRequestReassignment(user: User, task: Task): boolean {
+  return !calculatePermissions(user, task).canEditAssignee &&
+    !isCompletedStatus(task.status) &&
+    !!getReassignmentApproverId(task, user);
+}
+
+export function canDecideReassignment(user: User, request: ReassignmentRequest): boolean {
+  const isSuperAdmin = user.role === UserRole.SUPER_ADMIN || user.role === 'super_admin';
+  return request.status === 'pending' && (request.approverId === user.id || isSuperAdmin);
+}
+
+// Returns an error message, or null when the request can be sent
+export function validateReassignmentRequest(task: Task, suggestedAssigneeId: string, reason: string): string | null {
+  if (!suggestedAssigneeId) return "Choose who should take over the task";
+  if (suggestedAssigneeId === getAssigneeId(task)) return "The task is already assigned to that person";
+  if (!reason.trim()) return "Give a reason for the reassignment";
+  return null;
+}
+
+// History entry for a step of a request, recorded against the assignee field
+export function buildReassignmentHistoryEntry(
+  request: ReassignmentRequest,
+  event: Extract<TaskHistoryEvent, 'reassignment_requested' | 'reassignment_approved' | 'reassignment_rejected'>,
+  actorId: string,
+  note?: string,
+  timestamp: string = new Date().toISOString()
+): TaskHistoryEntry {
+  return {
+    taskId: request.taskId,
+    actorId,
+    timestamp,
+    field: 'assigneeId',
+    oldValue: request.currentAssigneeId,
+    newValue: request.suggestedAssigneeId,
+    event,
+    note: note?.trim() || undefined
+  };
+}
@@ -0,0 +1,127 @@
+import { addDays, addMonths, endOfDay, getDaysInMonth, isAfter, isBefore, parseISO, setDate, startOfDay } from "date-fns";
+import { Task, TaskRecurrence, TaskStatus } from "./types";
+import { formatDate } from "./utils";
+import { getDefaultStateForCategory, isCompletedStatus } from "./workflow";
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Next date strictly after `from` that matches the recurrence rule
+export function getNextRecurrenceDate(rule: TaskRecurrence, from: Date): Date {
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(from, 1);
+
+    case 'weekly': {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [from.getDay()];
+      for (let offset = 1; offset <= 7; offset++) {
+        const candidate = addDays(from, offset);
+        if (weekdays.includes(candidate.getDay())) return candidate;
+      }
+      return addDays(from, 7);
+    }
+
+    case 'monthly': {
+      const day = rule.dayOfMonth || from.getDate();
+      const sameMonth = setDate(from, Math.min(day, getDaysInMonth(from)));
+      if (isAfter(sameMonth, from)) return sameMonth;
+      const nextMonth = addMonths(setDate(from, 1), 1);
+      return setDate(nextMonth, Math.min(day, getDaysInMonth(nextMonth)));
+    }
+
+    case 'every_n_days':
+      return addDays(from, Math.max(1, rule.intervalDays || 1));
+
+    default:
+      return addDays(from, 1);
+  }
+}
+
+// Whether the series has ended before an instance with the given index and date
+export function hasRecurrenceEnded(rule: TaskRecurrence, occurrenceIndex: number, date: Date): boolean {
+  if (rule.endAfterOccurrences && occurrenceIndex > rule.endAfterOccurrences) return true;
+  if (rule.endDate && isAfter(startOfDay(date), endOfDay(parseISO(rule.endDate)))) return true;
+  return false;
+}
+
+// Build the next instance of a recurring task, or null when the series is over.
+// Occurrences that already lie in the past are skipped rather than materialised,
+// but still count towards endAfterOccurrences.
+export function buildNextOccurrence(task: Task, today: Date = new Date()): Omit<Task, 'id' | 'lastUpdated'> | null {
+  if (!task.recurrence) return null;
+
+  const rule = task.recurrence;
+  let occurrenceIndex = (task.occurrenceIndex || 1) + 1;
+  let nextDate = getNextRecurrenceDate(rule, parseISO(task.targetDate));
+  while (isBefore(nextDate, startOfDay(today))) {
+    nextDate = getNextRecurrenceDate(rule, nextDate);
+    occurrenceIndex++;
+  }
+
+  if (hasRecurrenceEnded(rule, occurrenceIndex, nextDate)) return null;
+
+  return {
+    title: task.title,
+    description: task.description,
+    assigneeId: task.assigneeId,
+    priority: task.priority,
+    tags: task.tags ? [...task.tags] : [],
+    watchers: task.watchers ? [...task.watchers] : undefined,
+    assignedDate: new Date().toISOString(),
+    targetDate: nextDate.toISOString(),
+    status: getDefaultStateForCategory(TaskStatus.NOT_STARTED)?.id || TaskStatus.NOT_STARTED,
+    recurrence: rule,
+    seriesId: task.seriesId || task.id,
+    occurrenceIndex
+  };
+}
+
+// A recurring instance rolls over once it is completed or the next scheduled date has arrived
+export function isRecurrenceDue(task: Task, today: Date = new Date()): boolean {
+  if (!task.recurrence) return false;
+  if (isCompletedStatus(task.status)) return true;
+  const nextDate = getNextRecurrenceDate(task.recurrence, parseISO(task.targetDate));
+  return !isAfter(nextDate, endOfDay(today));
+}
+
+// Latest known instance of each recurring series in a task list
+export function getLatestSeriesInstances(tasks: Task[]): Task[] {
+  const latest = new Map<string, Task>();
+  tasks.filter(task => task.recurrence).forEach(task => {
+    const seriesId = task.seriesId || task.id;
+    const current = latest.get(seriesId);
+    if (!current || (task.occurrenceIndex || 1) > (current.occurrenceIndex || 1)) {
+      latest.set(seriesId, task);
+    }
+  });
+  return Array.from(latest.values());
+}
+
+// Short human readable summary, e.g. "Weekly on Mon, Thu · 5 times"
+export function describeRecurrence(rule: TaskRecurrence): string {
+  let summary: string;
+  switch (rule.frequency) {
+    case 'daily':
+      summary = 'Daily';
+      break;
+    case 'weekly':
+      summary = rule.weekdays && rule.weekdays.length > 0
+        ? `Weekly on ${[...rule.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', ')}`
+        : 'Weekly';
+      break;
+    case 'monthly':
+      summary = rule.dayOfMonth ? `Monthly on day ${rule.dayOfMonth}` : 'Monthly';
+      break;
+    case 'every_n_days':
+      summary = `Every ${rule.intervalDays || 1} days`;
+      break;
+    default:
+      summary = 'Repeats';
+  }
+
+  if (rule.endAfterOccurrences) {
+    summary += ` · ${rule.endAfterOccurrences} times`;
+  } else if (rule.endDate) {
+    summary += ` · until ${formatDate(rule.endDate)}`;
+  }
+  return summary;
+}
@@ -0,0 +1,91 @@
+import { Task, TaskTag } from "./types";
+
+const TAG_STORAGE_KEY = 'tagCatalog';
+
+export const DEFAULT_TAG_COLOR = '#6b7280';
+
+export const TAG_COLORS = [
+  '#6b7280', // Grey
+  '#ef4444', // Red
+  '#f97316', // Orange
+  '#eab308', // Yellow
+  '#22c55e', // Green
+  '#14b8a6', // Teal
+  '#3b82f6', // Blue
+  '#8b5cf6', // Violet
+  '#ec4899'  // Pink
+];
+
+const normalizeTagName = (name: string): string => name.trim().toLowerCase();
+
+// The catalogue as last fetched from the server
+export function getTagCatalog(): TaskTag[] {
+  try {
+    const cached = localStorage.getItem(TAG_STORAGE_KEY);
+    if (cached) {
+      const tags = JSON.parse(cached);
+      if (Array.isArray(tags)) return tags;
+    }
+  } catch (error) {
+    console.error('Error reading cached tags:', error);
+  }
+  return [];
+}
+
+export function cacheTagCatalog(tags: TaskTag[]): void {
+  try {
+    localStorage.setItem(TAG_STORAGE_KEY, JSON.stringify(tags));
+  } catch (error) {
+    console.error('Error caching tags:', error);
+  }
+}
+
+// Catalogue entry for a tag name, ignoring case
+export function findTag(name: string, catalog: TaskTag[] = getTagCatalog()): TaskTag | undefined {
+  const wanted = normalizeTagName(name);
+  return catalog.find(tag => normalizeTagName(tag.name) === wanted);
+}
+
+export function getTagColor(name: string, catalog: TaskTag[] = getTagCatalog()): string {
+  return findTag(name, catalog)?.color || DEFAULT_TAG_COLOR;
+}
+
+// Use the catalogue's spelling for a typed tag so "release" and "Release" don't drift apart
+export function canonicalTagName(name: string, catalog: TaskTag[] = getTagCatalog()): string {
+  return findTag(name, catalog)?.name || name.trim();
+}
+
+// Active catalogue tags matching what has been typed, excluding ones already chosen
+export function getTagSuggestions(query: string, selected: string[], catalog: TaskTag[] = getTagCatalog()): TaskTag[] {
+  const wanted = normalizeTagName(query);
+  const chosen = selected.map(normalizeTagName);
+  return catalog
+    .filter(tag => !tag.archived && !chosen.includes(normalizeTagName(tag.name)))
+    .filter(tag => normalizeTagName(tag.name).includes(wanted))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// How many tasks use each tag name, exactly as spelled on the tasks
+export function countTagUsage(tasks: Task[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  tasks.forEach(task => {
+    (task.tags || []).forEach(tag => {
+      counts[tag] = (counts[tag] || 0) + 1;
+    });
+  });
+  return counts;
+}
+
+export function validateTag(tag: Partial<TaskTag>, catalog: TaskTag[]): { isValid: boolean; error?: string } {
+  if (!tag.name?.trim()) {
+    return { isValid: false, error: 'Tag name is required' };
+  }
+  if (tag.name.includes(',')) {
+    return { isValid: false, error: 'Tag names cannot contain commas' };
+  }
+  const existing = findTag(tag.name, catalog);
+  if (existing && existing.id !== tag.id) {
+    return { isValid: false, error: `A tag called "${existing.name}" already exists` };
+  }
+  return { isValid: true };
+}
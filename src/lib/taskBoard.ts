@@ -0,0 +1,54 @@
+import { Task, TaskPriority } from "./types";
+import { getUserById } from "./dataService";
+import { getWorkflowStates } from "./workflow";
+
+export type BoardSwimlane = 'none' | 'assignee' | 'priority';
+
+export interface Swimlane {
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+const PRIORITY_ORDER: string[] = [TaskPriority.URGENT, TaskPriority.HIGH, TaskPriority.MEDIUM, TaskPriority.LOW, 'none'];
+
+// Group tasks into horizontal swimlanes
+export const buildSwimlanes = (tasks: Task[], swimlane: BoardSwimlane): Swimlane[] => {
+  if (swimlane === 'none') {
+    return [{ key: 'all', label: '', tasks }];
+  }
+
+  const lanes = new Map<string, Swimlane>();
+  tasks.forEach(task => {
+    let key: string;
+    let label: string;
+
+    if (swimlane === 'assignee') {
+      const assignee = task.assigneeId ? getUserById(task.assigneeId) : undefined;
+      key = assignee?.id || 'unassigned';
+      label = assignee?.name || 'Unassigned';
+    } else {
+      key = task.priority ? String(task.priority) : 'none';
+      label = task.priority ? key.charAt(0).toUpperCase() + key.slice(1) : 'No priority';
+    }
+
+    if (!lanes.has(key)) {
+      lanes.set(key, { key, label, tasks: [] });
+    }
+    lanes.get(key)!.tasks.push(task);
+  });
+
+  const result = Array.from(lanes.values());
+  if (swimlane === 'priority') {
+    return result.sort((a, b) => PRIORITY_ORDER.indexOf(a.key) - PRIORITY_ORDER.indexOf(b.key));
+  }
+  return result.sort((a, b) => a.label.localeCompare(b.label));
+};
+
+// Task IDs in the order the board shows them: lane by lane, then column by column
+export const getBoardTaskIds = (tasks: Task[], swimlane: BoardSwimlane): string[] => {
+  const columns = getWorkflowStates();
+  return buildSwimlanes(tasks, swimlane).flatMap(lane =>
+    columns.flatMap(column => lane.tasks.filter(task => task.status === column.id).map(task => task.id))
+  );
+};
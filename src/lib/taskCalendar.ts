@@ -0,0 +1,99 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek
+} from "date-fns";
+import { Task, TaskPriority } from "./types";
+import { getWorkflowState } from "./workflow";
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+export type CalendarColorBy = 'status' | 'priority';
+
+export const CALENDAR_VIEWS: { value: CalendarView; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' },
+];
+
+export const PRIORITY_COLORS: Record<string, string> = {
+  [TaskPriority.URGENT]: '#ef4444',
+  [TaskPriority.HIGH]: '#f97316',
+  [TaskPriority.MEDIUM]: '#3b82f6',
+  [TaskPriority.LOW]: '#6b7280',
+};
+
+// Key used to bucket tasks by the local calendar day of their target date
+export const getDayKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Days shown by a view. Month views are padded to whole weeks.
+export function getCalendarDays(view: CalendarView, date: Date): Date[] {
+  switch (view) {
+    case 'month':
+      return eachDayOfInterval({ start: startOfWeek(startOfMonth(date)), end: endOfWeek(endOfMonth(date)) });
+    case 'week':
+      return eachDayOfInterval({ start: startOfWeek(date), end: endOfWeek(date) });
+    case 'day':
+      return [date];
+  }
+}
+
+// Move one month, week or day forwards (1) or backwards (-1)
+export function shiftCalendarDate(view: CalendarView, date: Date, direction: 1 | -1): Date {
+  switch (view) {
+    case 'month':
+      return addMonths(date, direction);
+    case 'week':
+      return addWeeks(date, direction);
+    case 'day':
+      return addDays(date, direction);
+  }
+}
+
+export function getCalendarTitle(view: CalendarView, date: Date): string {
+  switch (view) {
+    case 'month':
+      return format(date, 'MMMM yyyy');
+    case 'week': {
+      const start = startOfWeek(date);
+      const end = endOfWeek(date);
+      return start.getMonth() === end.getMonth()
+        ? `${format(start, 'MMM d')} - ${format(end, 'd, yyyy')}`
+        : `${format(start, 'MMM d')} - ${format(end, 'MMM d, yyyy')}`;
+    }
+    case 'day':
+      return format(date, 'EEEE, MMMM d, yyyy');
+  }
+}
+
+export function groupTasksByDay(tasks: Task[]): Map<string, Task[]> {
+  const groups = new Map<string, Task[]>();
+  tasks.forEach(task => {
+    if (!task.targetDate) return;
+    const key = getDayKey(new Date(task.targetDate));
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(task);
+  });
+  return groups;
+}
+
+export function getTaskColor(task: Task, colorBy: CalendarColorBy): string {
+  if (colorBy === 'priority') {
+    return PRIORITY_COLORS[task.priority || TaskPriority.MEDIUM] || PRIORITY_COLORS[TaskPriority.MEDIUM];
+  }
+  return getWorkflowState(task.status).color;
+}
+
+// New target date on `day`, keeping the original time of day
+export function moveTargetDateToDay(targetDate: string, day: Date): string {
+  const current = new Date(targetDate);
+  const moved = new Date(day);
+  moved.setHours(current.getHours(), current.getMinutes(), current.getSeconds(), current.getMilliseconds());
+  return moved.toISOString();
+}
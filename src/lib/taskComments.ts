@@ -0,0 +1,38 @@
+import { TaskComment } from "./types";
+
+export interface CommentThread {
+  comment: TaskComment;
+  replies: CommentThread[];
+}
+
+// Group a flat comment list into threads. Top-level comments are oldest first,
+// as are the replies under each comment. Replies to a deleted comment are
+// promoted to the top level so they stay visible.
+export function buildCommentThreads(comments: TaskComment[]): CommentThread[] {
+  const sorted = [...comments].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  const threads = new Map<string, CommentThread>();
+  sorted.forEach(comment => {
+    if (comment.id) threads.set(comment.id, { comment, replies: [] });
+  });
+
+  const roots: CommentThread[] = [];
+  sorted.forEach(comment => {
+    const thread = (comment.id && threads.get(comment.id)) || { comment, replies: [] };
+    const parent = comment.parentId ? threads.get(comment.parentId) : undefined;
+    if (parent && parent !== thread) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  });
+
+  return roots;
+}
+
+// Total number of comments in a set of threads, replies included
+export function countComments(threads: CommentThread[]): number {
+  return threads.reduce((count, thread) => count + 1 + countComments(thread.replies), 0);
+}
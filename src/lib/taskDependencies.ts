@@ -0,0 +1,41 @@
+import { Task } from "./types";
+import { isCompletedStatus } from "./workflow";
+
+// Tasks listed in task.blockedBy that are known and not yet completed
+export function getOpenBlockers(task: Task, allTasks: Task[]): Task[] {
+  if (!task.blockedBy || task.blockedBy.length === 0) return [];
+
+  const byId = new Map(allTasks.map(t => [t.id, t]));
+  return task.blockedBy
+    .map(id => byId.get(id))
+    .filter((blocker): blocker is Task => !!blocker && !isCompletedStatus(blocker.status));
+}
+
+// Find a dependency cycle that would be introduced by giving taskId the
+// blockers in blockedBy. Returns the cycle as a list of task IDs starting and
+// ending with taskId, or null when the graph stays acyclic.
+export function findDependencyCycle(taskId: string, blockedBy: string[], allTasks: Task[]): string[] | null {
+  const edges = new Map<string, string[]>();
+  allTasks.forEach(t => edges.set(t.id, t.blockedBy || []));
+  edges.set(taskId, blockedBy);
+
+  const visited = new Set<string>();
+  const search = (currentId: string, path: string[]): string[] | null => {
+    for (const nextId of edges.get(currentId) || []) {
+      if (nextId === taskId) return [...path, nextId];
+      if (visited.has(nextId)) continue;
+      visited.add(nextId);
+      const cycle = search(nextId, [...path, nextId]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return search(taskId, [taskId]);
+}
+
+// Human readable description of a dependency cycle, e.g. "A → B → A"
+export function describeDependencyCycle(cycle: string[], allTasks: Task[]): string {
+  const byId = new Map(allTasks.map(t => [t.id, t]));
+  return cycle.map(id => byId.get(id)?.title || id).join(' → ');
+}
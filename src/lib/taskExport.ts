@@ -0,0 +1,127 @@
+import { differenceInCalendarDays } from "date-fns";
+import { Task, User } from "./types";
+import { formatEffort } from "./estimates";
+import { getAssigneeId, isOverdue } from "./taskFilters";
+import { getTotalLoggedMinutes } from "./timeTracking";
+import { getWorkflowState } from "./workflow";
+import { formatPriority } from "./utils";
+
+export type TaskExportFormat = 'csv' | 'xlsx';
+
+export type TaskExportColumnId =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'assignee'
+  | 'creator'
+  | 'assignedDate'
+  | 'targetDate'
+  | 'completedDate'
+  | 'daysOverdue'
+  | 'tags'
+  | 'estimate'
+  | 'remainingEffort'
+  | 'loggedHours'
+  | 'remarks';
+
+// Dates stay as Date values so each format can write them its own way
+export type TaskExportValue = string | number | Date | null;
+
+export interface TaskExportContext {
+  resolveUser: (id: string | User) => User | undefined;
+  now: Date;
+}
+
+interface TaskExportColumn {
+  id: TaskExportColumnId;
+  label: string;
+  defaultSelected: boolean;
+  getValue: (task: Task, context: TaskExportContext) => TaskExportValue;
+}
+
+const EXPORT_COLUMNS_STORAGE_KEY = 'taskExportColumns';
+
+const toOptionalDate = (value: string | undefined): Date | null => value ? new Date(value) : null;
+
+// Whole days past the target date; 0 for tasks that are done or not yet due
+export function getDaysOverdue(task: Task, now: Date = new Date()): number {
+  return isOverdue(task, now) ? Math.max(0, differenceInCalendarDays(now, new Date(task.targetDate))) : 0;
+}
+
+export const TASK_EXPORT_COLUMNS: TaskExportColumn[] = [
+  { id: 'title', label: 'Title', defaultSelected: true, getValue: task => task.title },
+  { id: 'description', label: 'Description', defaultSelected: false, getValue: task => task.description || null },
+  { id: 'status', label: 'Status', defaultSelected: true, getValue: task => getWorkflowState(task.status).name },
+  { id: 'priority', label: 'Priority', defaultSelected: true, getValue: task => task.priority ? formatPriority(task.priority) : null },
+  {
+    id: 'assignee',
+    label: 'Assignee',
+    defaultSelected: true,
+    getValue: (task, context) => context.resolveUser(task.assignee || getAssigneeId(task))?.name || null
+  },
+  {
+    id: 'creator',
+    label: 'Created by',
+    defaultSelected: true,
+    getValue: (task, context) => {
+      const creator = task.creator || task.createdBy;
+      return creator ? context.resolveUser(creator)?.name || null : null;
+    }
+  },
+  { id: 'assignedDate', label: 'Assigned', defaultSelected: true, getValue: task => toOptionalDate(task.assignedDate) },
+  { id: 'targetDate', label: 'Target date', defaultSelected: true, getValue: task => toOptionalDate(task.targetDate) },
+  { id: 'completedDate', label: 'Completed', defaultSelected: false, getValue: task => toOptionalDate(task.completedDate) },
+  { id: 'daysOverdue', label: 'Days overdue', defaultSelected: true, getValue: (task, context) => getDaysOverdue(task, context.now) },
+  { id: 'tags', label: 'Tags', defaultSelected: true, getValue: task => (task.tags || []).join(', ') || null },
+  { id: 'estimate', label: 'Estimate', defaultSelected: false, getValue: task => task.estimate != null ? formatEffort(task.estimate) : null },
+  {
+    id: 'remainingEffort',
+    label: 'Remaining effort',
+    defaultSelected: false,
+    getValue: task => task.remainingEffort != null ? formatEffort(task.remainingEffort) : null
+  },
+  {
+    id: 'loggedHours',
+    label: 'Hours logged',
+    defaultSelected: false,
+    getValue: (task, context) => Math.round(getTotalLoggedMinutes(task, context.now) / 6) / 10
+  },
+  { id: 'remarks', label: 'Remarks', defaultSelected: false, getValue: task => task.remarks || null },
+];
+
+export function getExportColumnIds(): TaskExportColumnId[] {
+  try {
+    const stored = localStorage.getItem(EXPORT_COLUMNS_STORAGE_KEY);
+    if (stored) {
+      const ids = JSON.parse(stored);
+      if (Array.isArray(ids)) {
+        return TASK_EXPORT_COLUMNS.filter(column => ids.includes(column.id)).map(column => column.id);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading export columns:', error);
+  }
+  return TASK_EXPORT_COLUMNS.filter(column => column.defaultSelected).map(column => column.id);
+}
+
+export function setExportColumnIds(ids: TaskExportColumnId[]): void {
+  localStorage.setItem(EXPORT_COLUMNS_STORAGE_KEY, JSON.stringify(ids));
+}
+
+// A header row followed by one row per task, in column order
+export function buildTaskExportRows(tasks: Task[], columnIds: TaskExportColumnId[], context: TaskExportContext): TaskExportValue[][] {
+  const columns = TASK_EXPORT_COLUMNS.filter(column => columnIds.includes(column.id));
+  return [
+    columns.map(column => column.label),
+    ...tasks.map(task => columns.map(column => column.getValue(task, context)))
+  ];
+}
+
+// Dates in the browser's locale, e.g. 19/10/2026 or 10/19/2026
+export const formatLocaleDate = (date: Date): string => date.toLocaleDateString();
+
+// CSV has no date type, so dates are written out as text
+export function formatExportDates(rows: TaskExportValue[][], formatDate: (date: Date) => string = formatLocaleDate): (string | number | null)[][] {
+  return rows.map(row => row.map(value => value instanceof Date ? formatDate(value) : value));
+}
@@ -0,0 +1,135 @@
+import { endOfDay, parseISO, startOfDay } from "date-fns";
+import { Task, TaskFilters, TaskPriority, TaskSort, TaskSortField } from "./types";
+import { getWorkflowState, isCompletedStatus } from "./workflow";
+
+export const DEFAULT_TASK_SORT: TaskSort = { field: 'targetDate', direction: 'asc' };
+
+export const TASK_SORT_FIELDS: { value: TaskSortField; label: string }[] = [
+  { value: 'targetDate', label: 'Target date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'title', label: 'Title' },
+  { value: 'status', label: 'Status' },
+  { value: 'lastUpdated', label: 'Last updated' }
+];
+
+const PRIORITY_RANK: Record<string, number> = {
+  [TaskPriority.LOW]: 0,
+  [TaskPriority.MEDIUM]: 1,
+  [TaskPriority.HIGH]: 2,
+  [TaskPriority.URGENT]: 3
+};
+
+// Query string keys; list filters repeat their key, e.g. ?status=a&status=b
+const PARAMS = {
+  search: 'q',
+  status: 'status',
+  priority: 'priority',
+  assignees: 'assignee',
+  tags: 'tag',
+  start: 'from',
+  end: 'to',
+  overdue: 'overdue',
+  sort: 'sort'
+};
+
+// Tasks may come back with the assignee populated as a user object
+export const getAssigneeId = (task: Task): string =>
+  typeof task.assigneeId === 'object' && task.assigneeId !== null
+    ? (task.assigneeId as { id?: string }).id || ''
+    : task.assigneeId;
+
+export function isOverdue(task: Task, now: Date = new Date()): boolean {
+  return new Date(task.targetDate) < now && !isCompletedStatus(task.status);
+}
+
+export function matchesTaskFilters(task: Task, filters: TaskFilters, now: Date = new Date()): boolean {
+  const search = filters.search?.trim().toLowerCase();
+  if (search && !task.title.toLowerCase().includes(search) && !(task.description || '').toLowerCase().includes(search)) {
+    return false;
+  }
+  if (filters.status?.length && !filters.status.includes(task.status)) return false;
+  if (filters.priority?.length && !filters.priority.includes(task.priority as TaskPriority)) return false;
+  if (filters.assignees?.length && !filters.assignees.includes(getAssigneeId(task))) return false;
+  if (filters.tags?.length && !filters.tags.some(tag => (task.tags || []).includes(tag))) return false;
+  if (filters.overdue && !isOverdue(task, now)) return false;
+
+  const targetDate = new Date(task.targetDate);
+  if (filters.dateRange?.start && targetDate < startOfDay(parseISO(filters.dateRange.start))) return false;
+  if (filters.dateRange?.end && targetDate > endOfDay(parseISO(filters.dateRange.end))) return false;
+
+  return true;
+}
+
+// Number of filters in use, not counting the free-text search
+export function countActiveFilters(filters: TaskFilters): number {
+  return [
+    filters.status?.length,
+    filters.priority?.length,
+    filters.assignees?.length,
+    filters.tags?.length,
+    filters.dateRange?.start || filters.dateRange?.end,
+    filters.overdue
+  ].filter(Boolean).length;
+}
+
+const compareTasks = (a: Task, b: Task, field: TaskSortField): number => {
+  switch (field) {
+    case 'targetDate':
+      return new Date(a.targetDate).getTime() - new Date(b.targetDate).getTime();
+    case 'priority':
+      return (PRIORITY_RANK[a.priority || ''] ?? -1) - (PRIORITY_RANK[b.priority || ''] ?? -1);
+    case 'title':
+      return a.title.localeCompare(b.title);
+    case 'status':
+      return getWorkflowState(a.status).order - getWorkflowState(b.status).order;
+    case 'lastUpdated':
+      return new Date(a.lastUpdated).getTime() - new Date(b.lastUpdated).getTime();
+  }
+};
+
+export function sortTasks(tasks: Task[], sort: TaskSort): Task[] {
+  const direction = sort.direction === 'desc' ? -1 : 1;
+  return [...tasks].sort((a, b) => compareTasks(a, b, sort.field) * direction);
+}
+
+// Read filters and sort from the query string
+export function parseTaskViewParams(params: URLSearchParams): { filters: TaskFilters; sort: TaskSort } {
+  const filters: TaskFilters = {};
+  const search = params.get(PARAMS.search);
+  if (search) filters.search = search;
+  if (params.getAll(PARAMS.status).length) filters.status = params.getAll(PARAMS.status);
+  if (params.getAll(PARAMS.priority).length) filters.priority = params.getAll(PARAMS.priority) as TaskPriority[];
+  if (params.getAll(PARAMS.assignees).length) filters.assignees = params.getAll(PARAMS.assignees);
+  if (params.getAll(PARAMS.tags).length) filters.tags = params.getAll(PARAMS.tags);
+  if (params.get(PARAMS.start) || params.get(PARAMS.end)) {
+    filters.dateRange = { start: params.get(PARAMS.start) || '', end: params.get(PARAMS.end) || '' };
+  }
+  if (params.get(PARAMS.overdue) === '1') filters.overdue = true;
+
+  const [field, direction] = (params.get(PARAMS.sort) || '').split(':');
+  const sort = TASK_SORT_FIELDS.some(f => f.value === field)
+    ? { field: field as TaskSortField, direction: direction === 'desc' ? 'desc' as const : 'asc' as const }
+    : DEFAULT_TASK_SORT;
+
+  return { filters, sort };
+}
+
+// Write filters and sort into the query string, keeping unrelated params such as memberId
+export function buildTaskViewParams(filters: TaskFilters, sort: TaskSort, current?: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams(current);
+  Object.values(PARAMS).forEach(key => params.delete(key));
+
+  if (filters.search?.trim()) params.set(PARAMS.search, filters.search);
+  filters.status?.forEach(value => params.append(PARAMS.status, value));
+  filters.priority?.forEach(value => params.append(PARAMS.priority, value));
+  filters.assignees?.forEach(value => params.append(PARAMS.assignees, value));
+  filters.tags?.forEach(value => params.append(PARAMS.tags, value));
+  if (filters.dateRange?.start) params.set(PARAMS.start, filters.dateRange.start);
+  if (filters.dateRange?.end) params.set(PARAMS.end, filters.dateRange.end);
+  if (filters.overdue) params.set(PARAMS.overdue, '1');
+  if (sort.field !== DEFAULT_TASK_SORT.field || sort.direction !== DEFAULT_TASK_SORT.direction) {
+    params.set(PARAMS.sort, `${sort.field}:${sort.direction}`);
+  }
+
+  return params;
+}
@@ -0,0 +1,73 @@
+import { Task, SubtaskProgress } from "./types";
+import { isCompletedStatus } from "./workflow";
+
+// Sort sibling tasks by their explicit order, falling back to creation date
+const compareSiblings = (a: Task, b: Task): number => {
+  const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
+  const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
+  if (orderA !== orderB) return orderA - orderB;
+  return (a.createdAt || a.assignedDate || '').localeCompare(b.createdAt || b.assignedDate || '');
+};
+
+// Flatten a (possibly nested) task list into a single list. Each task keeps
+// its own subtasks so progress and warnings still work on the flat list.
+export function flattenTaskHierarchy(tasks: Task[]): Task[] {
+  const result: Task[] = [];
+  const visit = (task: Task) => {
+    result.push(task);
+    (task.subtasks || []).forEach(visit);
+  };
+  tasks.forEach(visit);
+  return result;
+}
+
+// Nest subtasks under their parents. Tasks whose parent is not in the list
+// (e.g. a member who only sees the subtask) stay at the top level.
+export function buildTaskHierarchy(tasks: Task[]): Task[] {
+  const flat = flattenTaskHierarchy(tasks);
+  const byId = new Map<string, Task>();
+  flat.forEach(task => byId.set(task.id, { ...task, subtasks: [] }));
+
+  const roots: Task[] = [];
+  byId.forEach(task => {
+    const parent = task.parentTaskId ? byId.get(task.parentTaskId) : undefined;
+    if (parent && parent.id !== task.id) {
+      parent.subtasks!.push(task);
+    } else {
+      roots.push(task);
+    }
+  });
+
+  byId.forEach(task => task.subtasks!.sort(compareSiblings));
+  return roots;
+}
+
+// Roll up completion across all descendants of a task
+export function getSubtaskProgress(task: Task): SubtaskProgress {
+  const descendants = flattenTaskHierarchy(task.subtasks || []);
+  const total = descendants.length;
+  const completed = descendants.filter(t => isCompletedStatus(t.status)).length;
+
+  return {
+    completed,
+    total,
+    percentage: total > 0 ? Math.round((completed / total) * 100) : 0
+  };
+}
+
+// Subtasks (at any depth) that are not yet completed
+export function getOpenSubtasks(task: Task): Task[] {
+  return flattenTaskHierarchy(task.subtasks || []).filter(t => !isCompletedStatus(t.status));
+}
+
+// Ask the user, through the confirm prompt the UI passes in, to confirm completing a
+// parent task that still has open subtasks. Returns true when it is fine to proceed.
+export function confirmCompleteWithOpenSubtasks(task: Task, confirmCompletion: (message: string) => boolean): boolean {
+  const openSubtasks = getOpenSubtasks(task);
+  if (openSubtasks.length === 0) return true;
+
+  return confirmCompletion(
+    `"${task.title}" still has ${openSubtasks.length} open ${openSubtasks.length === 1 ? 'subtask' : 'subtasks'}. ` +
+    `Mark it as complete anyway?`
+  );
+}
@@ -0,0 +1,129 @@
+import { Task, TaskHistoryEntry, TaskHistoryEvent, TaskHistoryField, TaskStatus } from "./types";
+import { getStatusCategory, getWorkflowState } from "./workflow";
+import { formatDate } from "./utils";
+import { formatEffort } from "./estimates";
+
+export const TRACKED_FIELDS: TaskHistoryField[] = [
+  'title', 'assigneeId', 'targetDate', 'status', 'priority', 'tags', 'remarks', 'estimate', 'remainingEffort'
+];
+
+const FIELD_LABELS: Record<TaskHistoryField, string> = {
+  title: 'title',
+  assigneeId: 'assignee',
+  targetDate: 'target date',
+  status: 'status',
+  priority: 'priority',
+  tags: 'tags',
+  remarks: 'remarks',
+  estimate: 'estimate',
+  remainingEffort: 'remaining effort'
+};
+
+// Normalise a field value for comparison and storage
+const normalizeValue = (task: Partial<Task>, field: TaskHistoryField): string | string[] | null => {
+  const value = task[field];
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) return value.length > 0 ? [...value].sort() : null;
+  // Populated user objects are stored by ID
+  if (typeof value === 'object') return (value as { id?: string }).id || null;
+  return String(value);
+};
+
+const isSameValue = (a: string | string[] | null, b: string | string[] | null): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const classifyChange = (field: TaskHistoryField, oldValue: string | null, newValue: string | null): TaskHistoryEvent => {
+  if (field === 'assigneeId') return 'reassigned';
+  if (field === 'status' && newValue) {
+    const wasCompleted = !!oldValue && getStatusCategory(oldValue) === TaskStatus.COMPLETED;
+    const isCompleted = getStatusCategory(newValue) === TaskStatus.COMPLETED;
+    if (isCompleted && !wasCompleted) return 'completed';
+    if (wasCompleted && !isCompleted) return 'reopened';
+  }
+  return 'updated';
+};
+
+// One history entry per tracked field that differs between two versions of a task
+export function diffTaskFields(
+  before: Partial<Task>,
+  after: Partial<Task>,
+  actorId: string,
+  timestamp: string = new Date().toISOString()
+): TaskHistoryEntry[] {
+  const taskId = after.id || before.id;
+
+  return TRACKED_FIELDS
+    // Fields missing from a partial update are unchanged, not cleared
+    .filter(field => field in after)
+    .map(field => ({ field, oldValue: normalizeValue(before, field), newValue: normalizeValue(after, field) }))
+    .filter(({ oldValue, newValue }) => !isSameValue(oldValue, newValue))
+    .map(({ field, oldValue, newValue }) => ({
+      taskId,
+      actorId,
+      timestamp,
+      field,
+      oldValue,
+      newValue,
+      event: classifyChange(
+        field,
+        typeof oldValue === 'string' ? oldValue : null,
+        typeof newValue === 'string' ? newValue : null
+      )
+    }));
+}
+
+// Human readable value for a field; user names are resolved by the caller
+export function formatHistoryValue(
+  field: TaskHistoryField,
+  value: string | string[] | null,
+  resolveUserName: (id: string) => string
+): string {
+  if (value === null) return 'none';
+  if (Array.isArray(value)) return value.join(', ');
+
+  switch (field) {
+    case 'assigneeId':
+      return resolveUserName(value);
+    case 'targetDate':
+      return formatDate(value);
+    case 'status':
+      return getWorkflowState(value).name;
+    case 'priority':
+      return value.charAt(0).toUpperCase() + value.slice(1);
+    case 'estimate':
+    case 'remainingEffort':
+      return formatEffort(Number(value));
+    default:
+      return value;
+  }
+}
+
+// Sentence describing an entry, without the actor, e.g. "reassigned the task from Ann to Bob"
+export function describeHistoryEntry(entry: TaskHistoryEntry, resolveUserName: (id: string) => string): string {
+  const from = formatHistoryValue(entry.field, entry.oldValue, resolveUserName);
+  const to = formatHistoryValue(entry.field, entry.newValue, resolveUserName);
+
+  switch (entry.event) {
+    case 'reassigned':
+      return entry.oldValue ? `reassigned the task from ${from} to ${to}` : `assigned the task to ${to}`;
+    case 'completed':
+      return `completed the task (${from} → ${to})`;
+    case 'reopened':
+      return `reopened the task (${from} → ${to})`;
+    case 'reassignment_requested':
+      return `asked for the task to move from ${from} to ${to}`;
+    case 'reassignment_approved':
+      return `approved moving the task from ${from} to ${to}`;
+    case 'reassignment_rejected':
+      return `rejected moving the task from ${from} to ${to}`;
+    case 'assignment_accepted':
+      return 'accepted the assignment';
+    case 'assignment_declined':
+      return 'declined the assignment';
+    default:
+      if (entry.field === 'remarks' || entry.field === 'title') {
+        return entry.newValue ? `changed the ${FIELD_LABELS[entry.field]} to "${to}"` : `cleared the ${FIELD_LABELS[entry.field]}`;
+      }
+      return `changed the ${FIELD_LABELS[entry.field]} from ${from} to ${to}`;
+  }
+}
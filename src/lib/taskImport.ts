@@ -0,0 +1,175 @@
+import { isValid, parse, parseISO } from "date-fns";
+import { Task, TaskPriority, TaskStatus, User } from "./types";
+import { canonicalTagName } from "./tags";
+import { getDefaultStateForCategory, getWorkflowStates } from "./workflow";
+import { formatPriority } from "./utils";
+
+export type ImportField =
+  | 'title'
+  | 'description'
+  | 'assigneeEmail'
+  | 'targetDate'
+  | 'status'
+  | 'priority'
+  | 'tags'
+  | 'estimate'
+  | 'remarks';
+
+// Column index -> field; null leaves the column out of the import
+export type ColumnMapping = (ImportField | null)[];
+
+export type ImportTaskData = Omit<Task, 'id' | 'lastUpdated'>;
+
+export interface ImportRowResult {
+  rowNumber: number; // Line in the file, counting the header as line 1
+  task?: ImportTaskData; // Set when the row is valid
+  errors: string[];
+}
+
+export interface ImportOutcome {
+  rowNumber: number;
+  task?: Task; // The created task
+  error?: string;
+}
+
+export interface ImportContext {
+  usersByEmail: Map<string, User | undefined>; // Keys are lower-cased emails
+  assignableUserIds: Set<string>;
+  now?: Date;
+}
+
+export const IMPORT_FIELDS: { value: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { value: 'title', label: 'Title', required: true, aliases: ['title', 'name', 'task', 'summary'] },
+  { value: 'description', label: 'Description', aliases: ['description', 'details', 'notes'] },
+  { value: 'assigneeEmail', label: 'Assignee email', required: true, aliases: ['assignee', 'assignee email', 'email', 'owner', 'assigned to'] },
+  { value: 'targetDate', label: 'Target date', required: true, aliases: ['target date', 'due', 'due date', 'deadline', 'target'] },
+  { value: 'status', label: 'Status', aliases: ['status', 'state'] },
+  { value: 'priority', label: 'Priority', aliases: ['priority'] },
+  { value: 'tags', label: 'Tags', aliases: ['tags', 'labels', 'tag'] },
+  { value: 'estimate', label: 'Estimate', aliases: ['estimate', 'effort', 'points', 'hours'] },
+  { value: 'remarks', label: 'Remarks', aliases: ['remarks', 'comments'] },
+];
+
+// Date formats accepted besides ISO 8601
+const DATE_FORMATS = ['M/d/yyyy', 'd MMM yyyy', 'MMM d, yyyy'];
+
+const normalize = (value: string): string => value.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+// Map each header to the field whose name it matches, using each field once
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const field = IMPORT_FIELDS.find(f => !used.has(f.value) && f.aliases.includes(normalize(header)));
+    if (!field) return null;
+    used.add(field.value);
+    return field.value;
+  });
+}
+
+// Required fields that no column is mapped to
+export function getMissingRequiredFields(mapping: ColumnMapping): ImportField[] {
+  return IMPORT_FIELDS.filter(field => field.required && !mapping.includes(field.value)).map(field => field.value);
+}
+
+export function getMappedValue(row: string[], mapping: ColumnMapping, field: ImportField): string {
+  const index = mapping.indexOf(field);
+  return index >= 0 ? (row[index] || '').trim() : '';
+}
+
+export function parseImportDate(value: string, now: Date = new Date()): Date | undefined {
+  const iso = parseISO(value);
+  if (isValid(iso)) return iso;
+
+  for (const dateFormat of DATE_FORMATS) {
+    const parsed = parse(value, dateFormat, now);
+    if (isValid(parsed)) return parsed;
+  }
+  return undefined;
+}
+
+// Match a workflow state by ID or display name
+const parseStatus = (value: string): string | undefined => {
+  const wanted = normalize(value);
+  return getWorkflowStates().find(state => normalize(state.id) === wanted || normalize(state.name) === wanted)?.id;
+};
+
+const parsePriority = (value: string): TaskPriority | undefined =>
+  Object.values(TaskPriority).find(priority => priority === value.toLowerCase() || formatPriority(priority).toLowerCase() === value.toLowerCase());
+
+// Lower-cased assignee emails in the mapped rows, for resolving users up front
+export function getImportEmails(rows: string[][], mapping: ColumnMapping): string[] {
+  return Array.from(new Set(
+    rows.map(row => getMappedValue(row, mapping, 'assigneeEmail').toLowerCase()).filter(Boolean)
+  ));
+}
+
+// Check one data row and build the task it would create
+export function validateImportRow(row: string[], rowNumber: number, mapping: ColumnMapping, context: ImportContext): ImportRowResult {
+  const errors: string[] = [];
+  const value = (field: ImportField) => getMappedValue(row, mapping, field);
+  const now = context.now || new Date();
+
+  const title = value('title');
+  if (!title) errors.push('Title is required');
+
+  const email = value('assigneeEmail');
+  const assignee = email ? context.usersByEmail.get(email.toLowerCase()) : undefined;
+  if (!email) {
+    errors.push('Assignee email is required');
+  } else if (!assignee) {
+    errors.push(`No user with email ${email}`);
+  } else if (!context.assignableUserIds.has(assignee.id)) {
+    errors.push(`You can't assign tasks to ${assignee.name}`);
+  }
+
+  const targetDateValue = value('targetDate');
+  const targetDate = targetDateValue ? parseImportDate(targetDateValue, now) : undefined;
+  if (!targetDateValue) {
+    errors.push('Target date is required');
+  } else if (!targetDate) {
+    errors.push(`"${targetDateValue}" is not a date; use YYYY-MM-DD`);
+  }
+
+  const statusValue = value('status');
+  const status = statusValue
+    ? parseStatus(statusValue)
+    : getDefaultStateForCategory(TaskStatus.NOT_STARTED)?.id || TaskStatus.NOT_STARTED;
+  if (!status) errors.push(`Unknown status "${statusValue}"`);
+
+  const priorityValue = value('priority');
+  const priority = priorityValue ? parsePriority(priorityValue) : TaskPriority.MEDIUM;
+  if (!priority) errors.push(`Unknown priority "${priorityValue}"`);
+
+  const estimateValue = value('estimate');
+  const estimate = estimateValue ? Number(estimateValue) : null;
+  if (estimate !== null && (!Number.isFinite(estimate) || estimate < 0)) {
+    errors.push(`Estimate "${estimateValue}" must be a positive number`);
+  }
+
+  if (errors.length > 0) {
+    return { rowNumber, errors };
+  }
+
+  const tags = Array.from(new Set(
+    value('tags').split(/[,;]/).map(tag => canonicalTagName(tag)).filter(Boolean)
+  ));
+
+  return {
+    rowNumber,
+    errors,
+    task: {
+      title,
+      description: value('description'),
+      assigneeId: assignee.id,
+      assignedDate: now.toISOString(),
+      targetDate: targetDate.toISOString(),
+      status,
+      priority,
+      tags,
+      remarks: value('remarks'),
+      estimate,
+      // New tasks start with all of their estimated effort remaining
+      remainingEffort: estimate
+    }
+  };
+}
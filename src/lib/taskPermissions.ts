@@ -0,0 +1,169 @@
+import { Task, TaskAttachment, TaskComment, TaskPermissions, User, UserRole } from "./types";
+
+export interface FieldPermissions {
+  canEditTitle: boolean;
+  canEditDescription: boolean;
+  canEditAssignee: boolean;
+  canEditTargetDate: boolean;
+  canEditStatus: boolean;
+  canEditRemarks: boolean;
+  canEditSubtasks: boolean;
+  canEditDependencies: boolean;
+  canUploadAttachments: boolean;
+  canLogTime: boolean;
+  canEditEstimate: boolean;
+  canEditRemainingEffort: boolean;
+  canEditPriority: boolean;
+  canEditTags: boolean;
+}
+
+// Calculate field permissions based on user role and task details
+export const calculatePermissions = (currentUser: User, task?: Task): FieldPermissions => {
+  if (!task) {
+    // Creating new task - user can edit all fields
+    return {
+      canEditTitle: true,
+      canEditDescription: true,
+      canEditAssignee: true,
+      canEditTargetDate: true,
+      canEditStatus: true,
+      canEditRemarks: true,
+      canEditSubtasks: true,
+      canEditDependencies: true,
+      canUploadAttachments: true,
+      canLogTime: true,
+      canEditEstimate: true,
+      canEditRemainingEffort: true,
+      canEditPriority: true,
+      canEditTags: true
+    };
+  }
+
+  const isCreator = task.createdBy === currentUser.id;
+  const isAssignee = task.assigneeId === currentUser.id;
+  const isSuperAdmin = currentUser.role === UserRole.SUPER_ADMIN || currentUser.role === 'super_admin';
+  const isManager = currentUser.role === UserRole.MANAGER || currentUser.role === 'manager';
+  const isSupervisor = currentUser.role === UserRole.SUPERVISOR || currentUser.role === 'supervisor';
+
+  // For editing existing tasks
+  return {
+    // Title: Only creator or super admin can edit
+    canEditTitle: isCreator || isSuperAdmin,
+    
+    // Description: Only creator or super admin can edit
+    canEditDescription: isCreator || isSuperAdmin,
+    
+    // Assignee: Based on role hierarchy
+    canEditAssignee: (() => {
+      if (isSuperAdmin) return true;
+      if (isCreator) return true;
+      if (currentUser.role === UserRole.MEMBER || currentUser.role === 'member') return false;
+      
+      // Supervisor can edit if task is assigned to them or their team members
+      if (isSupervisor) {
+        return isAssignee; // Can reassign their own tasks
+      }
+      
+      // Manager can edit if task is in their team
+      if (isManager) {
+        return true; // Managers can generally reassign within their team
+      }
+      
+      return false;
+    })(),
+    
+    // Target Date: Only creator or super admin can edit
+    canEditTargetDate: isCreator || isSuperAdmin,
+    
+    // Status: Assignee or their supervisor/manager can edit
+    canEditStatus: (() => {
+      if (isSuperAdmin) return true;
+      if (isAssignee) return true;
+      
+      // Check if current user is supervisor/manager of the assignee
+      // For now, we'll allow supervisors and managers to edit status
+      if (isSupervisor || isManager) return true;
+      
+      return false;
+    })(),
+    
+    // Remarks: Assignee or their supervisor/manager can edit
+    canEditRemarks: (() => {
+      if (isSuperAdmin) return true;
+      if (isAssignee) return true;
+      
+      // Check if current user is supervisor/manager of the assignee
+      if (isSupervisor || isManager) return true;
+      
+      return false;
+    })(),
+
+    // Subtasks: Creator, assignee or their supervisor/manager can break the task down
+    canEditSubtasks: isSuperAdmin || isCreator || isAssignee || isSupervisor || isManager,
+
+    // Dependencies: Creator or super admin, plus supervisors/managers planning the work
+    canEditDependencies: isSuperAdmin || isCreator || isSupervisor || isManager,
+
+    // Attachments: Anyone working on the task can add files
+    canUploadAttachments: isSuperAdmin || isCreator || isAssignee || isSupervisor || isManager,
+
+    // Time: Whoever works on the task can log time against it
+    canLogTime: isSuperAdmin || isAssignee || isSupervisor || isManager,
+
+    // Estimate: Set by whoever plans the work
+    canEditEstimate: isSuperAdmin || isCreator || isSupervisor || isManager,
+
+    // Remaining effort: Kept up to date by the people doing the work
+    canEditRemainingEffort: isSuperAdmin || isAssignee || isSupervisor || isManager,
+
+    // Priority and tags: Part of planning the work, like the estimate
+    canEditPriority: isSuperAdmin || isCreator || isSupervisor || isManager,
+    canEditTags: isSuperAdmin || isCreator || isSupervisor || isManager
+  };
+};
+
+// Calculate what the current user may do with a task as a whole
+export const calculateTaskPermissions = (currentUser: User, task: Task): TaskPermissions => {
+  const fieldPermissions = calculatePermissions(currentUser, task);
+  const isCreator = task.createdBy === currentUser.id;
+  const isAssignee = task.assigneeId === currentUser.id;
+  const isSuperAdmin = currentUser.role === UserRole.SUPER_ADMIN || currentUser.role === 'super_admin';
+  const isManager = currentUser.role === UserRole.MANAGER || currentUser.role === 'manager';
+  const isSupervisor = currentUser.role === UserRole.SUPERVISOR || currentUser.role === 'supervisor';
+  const canView = isSuperAdmin || isCreator || isAssignee || isSupervisor || isManager;
+
+  return {
+    canView,
+    canEdit: isCreator || isSuperAdmin,
+    canDelete: isCreator || isSuperAdmin,
+    canReassign: fieldPermissions.canEditAssignee,
+    canUpdateStatus: fieldPermissions.canEditStatus,
+    // Anyone involved with the task can join the discussion
+    canComment: canView
+  };
+};
+
+// Comments can only be edited or deleted by their author
+export const canModifyComment = (currentUser: User, comment: TaskComment): boolean => {
+  const authorId = typeof comment.author === 'object' && comment.author !== null
+    ? comment.author.id
+    : comment.author;
+  return !!authorId && authorId === currentUser.id;
+};
+
+// Attachments can be removed by their uploader, the task creator or assignee, or a super admin
+export const canDeleteAttachment = (currentUser: User, task: Task, attachment: TaskAttachment): boolean => {
+  const uploaderId = typeof attachment.uploadedBy === 'object' && attachment.uploadedBy !== null
+    ? attachment.uploadedBy.id
+    : attachment.uploadedBy;
+  const isSuperAdmin = currentUser.role === UserRole.SUPER_ADMIN || currentUser.role === 'super_admin';
+  return isSuperAdmin ||
+    task.createdBy === currentUser.id ||
+    task.assigneeId === currentUser.id ||
+    uploaderId === currentUser.id;
+};
+
+// Attachments can be downloaded by anyone who can view the task
+export const canDownloadAttachment = (currentUser: User, task: Task): boolean => {
+  return calculateTaskPermissions(currentUser, task).canView;
+};
@@ -0,0 +1,232 @@
+import { addDays, endOfDay, isSameDay, isValid, parseISO, startOfDay } from "date-fns";
+import { Task, TaskPriority, TaskStatus } from "./types";
+import { getStatusCategory, getWorkflowState, getWorkflowStates, isCompletedStatus } from "./workflow";
+
+export type QueryKey = 'assignee' | 'priority' | 'tag' | 'due' | 'status';
+
+export interface QueryTerm {
+  key: QueryKey;
+  value: string;
+  negated: boolean; // Written as key:!value
+}
+
+export interface QueryError {
+  token: string;
+  message: string;
+}
+
+export interface ParsedTaskQuery {
+  terms: QueryTerm[];
+  text: string; // Everything that is not a key:value term, matched against title and description
+  errors: QueryError[];
+}
+
+export interface QueryUser {
+  id: string;
+  name: string;
+}
+
+export interface QueryContext {
+  currentUserId: string;
+  users: QueryUser[];
+  now?: Date;
+}
+
+export interface QuerySuggestion {
+  label: string;
+  insert: string; // Replaces the token under the caret
+  description?: string;
+}
+
+export interface QuerySuggestions {
+  start: number;
+  end: number;
+  items: QuerySuggestion[];
+}
+
+export const QUERY_KEYS: { key: QueryKey; description: string }[] = [
+  { key: 'assignee', description: 'me or a name' },
+  { key: 'priority', description: 'low, medium, high or urgent' },
+  { key: 'tag', description: 'a tag' },
+  { key: 'due', description: 'today, overdue, <7d, >2w or a date' },
+  { key: 'status', description: 'a state or category' }
+];
+
+const DUE_SUGGESTIONS = ['today', 'overdue', '<7d', '<14d', '>7d'];
+const TOKEN_PATTERN = /(?:[^\s"]+|"[^"]*")+/g;
+const TERM_PATTERN = /^([a-z]+):(!?)(.*)$/i;
+
+const unquote = (value: string): string => value.replace(/"/g, '');
+const quoteIfNeeded = (value: string): string => /\s/.test(value) ? `"${value}"` : value;
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+const matchUser = (value: string, context: QueryContext): string | undefined => {
+  const wanted = normalize(value);
+  if (wanted === 'me') return context.currentUserId;
+  const user = context.users.find(u =>
+    u.id === value || normalize(u.name) === wanted || normalize(u.name).split(' ')[0] === wanted
+  );
+  return user?.id;
+};
+
+const matchesStatusValue = (status: string, value: string): boolean => {
+  const wanted = normalize(value).replace(/\s+/g, '_');
+  return status === value ||
+    getStatusCategory(status) === wanted ||
+    normalize(getWorkflowState(status).name).replace(/\s+/g, '_') === wanted;
+};
+
+// Relative (<7d, >2w) or absolute (<2025-01-31, 2025-01-31) due dates
+const parseDueValue = (value: string, now: Date = new Date()): { op: '<' | '>' | '='; date: Date } | 'today' | 'overdue' | null => {
+  const lower = normalize(value);
+  if (lower === 'today' || lower === 'overdue') return lower;
+
+  const match = /^([<>]?)(?:(\d+)([dw])|(\d{4}-\d{2}-\d{2}))$/.exec(lower);
+  if (!match) return null;
+
+  const op = (match[1] || '=') as '<' | '>' | '=';
+  if (match[4]) {
+    const date = parseISO(match[4]);
+    return isValid(date) ? { op, date } : null;
+  }
+  const days = parseInt(match[2], 10) * (match[3] === 'w' ? 7 : 1);
+  return { op, date: addDays(now, days) };
+};
+
+const validateTerm = (term: QueryTerm): string | null => {
+  if (!term.value) return `"${term.key}:" needs a value`;
+  switch (term.key) {
+    case 'priority':
+      return Object.values(TaskPriority).includes(normalize(term.value) as TaskPriority)
+        ? null
+        : `Unknown priority "${term.value}". Use low, medium, high or urgent`;
+    case 'due':
+      return parseDueValue(term.value) ? null : `Can't read due date "${term.value}". Try today, overdue, <7d or 2025-01-31`;
+    default:
+      return null;
+  }
+};
+
+export function parseTaskQuery(input: string): ParsedTaskQuery {
+  const terms: QueryTerm[] = [];
+  const errors: QueryError[] = [];
+  const text: string[] = [];
+
+  (input.match(TOKEN_PATTERN) || []).forEach(token => {
+    const match = TERM_PATTERN.exec(token);
+    if (!match) {
+      text.push(unquote(token));
+      return;
+    }
+
+    const key = match[1].toLowerCase();
+    if (!QUERY_KEYS.some(k => k.key === key)) {
+      errors.push({
+        token,
+        message: `Unknown filter "${match[1]}:". Use ${QUERY_KEYS.map(k => k.key).join(', ')}`
+      });
+      return;
+    }
+
+    const term: QueryTerm = { key: key as QueryKey, value: unquote(match[3]), negated: match[2] === '!' };
+    const error = validateTerm(term);
+    if (error) {
+      errors.push({ token, message: error });
+    } else {
+      terms.push(term);
+    }
+  });
+
+  return { terms, text: text.join(' ').trim(), errors };
+}
+
+const matchesTerm = (task: Task, term: QueryTerm, context: QueryContext): boolean => {
+  const now = context.now || new Date();
+  switch (term.key) {
+    case 'assignee':
+      return !!task.assigneeId && task.assigneeId === matchUser(term.value, context);
+    case 'priority':
+      return normalize(String(task.priority || '')) === normalize(term.value);
+    case 'tag':
+      return (task.tags || []).some(tag => normalize(tag) === normalize(term.value));
+    case 'status':
+      return matchesStatusValue(String(task.status), term.value);
+    case 'due': {
+      const targetDate = new Date(task.targetDate);
+      const due = parseDueValue(term.value, now);
+      if (due === 'today') return isSameDay(targetDate, now);
+      if (due === 'overdue') return targetDate < now && !isCompletedStatus(task.status);
+      if (!due) return false;
+      if (due.op === '<') return targetDate <= endOfDay(due.date);
+      if (due.op === '>') return targetDate >= startOfDay(due.date);
+      return isSameDay(targetDate, due.date);
+    }
+  }
+};
+
+// Terms are ANDed together; invalid terms have already been dropped into errors
+export function matchesTaskQuery(task: Task, query: ParsedTaskQuery, context: QueryContext): boolean {
+  if (query.text) {
+    const text = query.text.toLowerCase();
+    if (!task.title.toLowerCase().includes(text) && !(task.description || '').toLowerCase().includes(text)) {
+      return false;
+    }
+  }
+  return query.terms.every(term => matchesTerm(task, term, context) !== term.negated);
+}
+
+// Completions for the token under the caret: keys first, then values for a known key
+export function getQuerySuggestions(
+  input: string,
+  caret: number,
+  context: QueryContext,
+  tags: string[] = []
+): QuerySuggestions | null {
+  const before = input.slice(0, caret);
+  const start = before.search(/\S*$/);
+  const afterCaret = input.slice(caret).search(/\s|$/);
+  const end = caret + afterCaret;
+  const token = input.slice(start, end);
+  if (!token) return null;
+
+  const match = TERM_PATTERN.exec(token);
+  if (!match) {
+    const items = QUERY_KEYS
+      .filter(k => k.key.startsWith(token.toLowerCase()) && k.key !== token.toLowerCase())
+      .map(k => ({ label: `${k.key}:`, insert: `${k.key}:`, description: k.description }));
+    return items.length > 0 ? { start, end, items } : null;
+  }
+
+  const key = match[1].toLowerCase() as QueryKey;
+  const prefix = `${key}:${match[2]}`;
+  const partial = normalize(unquote(match[3]));
+  let values: string[] = [];
+  switch (key) {
+    case 'assignee':
+      values = ['me', ...context.users.map(u => u.name)];
+      break;
+    case 'priority':
+      values = Object.values(TaskPriority);
+      break;
+    case 'tag':
+      values = tags;
+      break;
+    case 'status':
+      values = [
+        ...getWorkflowStates().map(state => state.id),
+        ...Object.values(TaskStatus).filter(category => !getWorkflowStates().some(state => state.id === category))
+      ];
+      break;
+    case 'due':
+      values = DUE_SUGGESTIONS;
+      break;
+    default:
+      return null;
+  }
+
+  const items = values
+    .filter(value => normalize(value).startsWith(partial) && normalize(value) !== partial)
+    .slice(0, 8)
+    .map(value => ({ label: value, insert: `${prefix}${quoteIfNeeded(value)} ` }));
+  return items.length > 0 ? { start, end, items } : null;
+}
@@ -0,0 +1,64 @@
+import { addDays, format } from "date-fns";
+import { TaskPriority, TaskTemplate, User, UserRole } from "./types";
+
+export interface TemplateTaskFields {
+  title: string;
+  description: string;
+  priority: TaskPriority | string;
+  tags: string[];
+  targetDate: Date;
+  assigneeId?: string;
+  subtasks: string[];
+}
+
+export const TITLE_PLACEHOLDERS = ['{date}', '{month}', '{year}'];
+
+// Only admins and managers maintain the shared template library
+export const canManageTemplates = (user: User): boolean =>
+  user.role === UserRole.SUPER_ADMIN || user.role === UserRole.MANAGER;
+
+// Replace date placeholders in a template title, e.g. "Release {month}" → "Release March 2025"
+export function resolveTitlePattern(pattern: string, today: Date = new Date()): string {
+  return pattern
+    .replace(/\{date\}/g, format(today, 'yyyy-MM-dd'))
+    .replace(/\{month\}/g, format(today, 'MMMM yyyy'))
+    .replace(/\{year\}/g, format(today, 'yyyy'));
+}
+
+// The field values a new task starts with when created from a template.
+// Relative dates resolve from `today`; the assignee is the first assignable user
+// holding the template's default role, preferring the current user.
+export function buildTaskFromTemplate(
+  template: TaskTemplate,
+  assignableUsers: User[],
+  currentUser: User,
+  today: Date = new Date()
+): TemplateTaskFields {
+  const candidates = template.defaultAssigneeRole
+    ? assignableUsers.filter(user => user.role === template.defaultAssigneeRole)
+    : [];
+  const assignee = candidates.find(user => user.id === currentUser.id) || candidates[0];
+
+  return {
+    title: resolveTitlePattern(template.titlePattern, today),
+    description: template.description || '',
+    priority: template.priority || TaskPriority.MEDIUM,
+    tags: template.tags || [],
+    targetDate: addDays(today, template.dueOffsetDays || 0),
+    assigneeId: assignee?.id,
+    subtasks: template.subtasks || []
+  };
+}
+
+export function validateTemplate(template: Partial<TaskTemplate>): { isValid: boolean; error?: string } {
+  if (!template.name?.trim()) {
+    return { isValid: false, error: 'Template name is required' };
+  }
+  if (!template.titlePattern?.trim()) {
+    return { isValid: false, error: 'Title pattern is required' };
+  }
+  if (template.dueOffsetDays == null || !Number.isInteger(template.dueOffsetDays) || template.dueOffsetDays < 0) {
+    return { isValid: false, error: 'Due offset must be a whole number of days, zero or more' };
+  }
+  return { isValid: true };
+}
@@ -0,0 +1,153 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  endOfWeek,
+  format,
+  max,
+  min,
+  startOfDay,
+  startOfWeek
+} from "date-fns";
+import { Task, User, UserRole } from "./types";
+import { getAssigneeId } from "./taskFilters";
+
+export type TimelineZoom = 'day' | 'week' | 'month';
+
+export type TimelineGroupBy = 'assignee' | 'team';
+
+// Which dates a drag changes: the start, the end, or the whole span
+export type TimelineDragEdge = 'start' | 'end' | 'move';
+
+export const TIMELINE_ZOOMS: { value: TimelineZoom; label: string; dayWidth: number }[] = [
+  { value: 'day', label: 'Day', dayWidth: 40 },
+  { value: 'week', label: 'Week', dayWidth: 16 },
+  { value: 'month', label: 'Month', dayWidth: 5 },
+];
+
+export interface TimelineRange {
+  start: Date;
+  end: Date;
+  days: number;
+}
+
+export interface TimelineHeader {
+  key: string;
+  label: string;
+  offsetDays: number; // From the start of the range
+  days: number;
+}
+
+export interface TimelineGroup {
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+export const getDayWidth = (zoom: TimelineZoom): number =>
+  TIMELINE_ZOOMS.find(option => option.value === zoom)?.dayWidth || TIMELINE_ZOOMS[0].dayWidth;
+
+// The days a task spans, from its assigned date to its target date inclusive.
+// A target date before the assigned date collapses the span to a single day.
+export function getTaskSpan(task: Task): { start: Date; end: Date } {
+  const end = startOfDay(new Date(task.targetDate));
+  const start = startOfDay(new Date(task.assignedDate || task.createdAt || task.targetDate));
+  return { start: start > end ? end : start, end };
+}
+
+// Whole weeks covering every task and today
+export function getTimelineRange(tasks: Task[], today: Date = new Date()): TimelineRange {
+  const spans = tasks.map(getTaskSpan);
+  const start = startOfWeek(min([today, ...spans.map(span => span.start)]));
+  const end = startOfDay(endOfWeek(max([today, ...spans.map(span => span.end)])));
+  return { start, end, days: differenceInCalendarDays(end, start) + 1 };
+}
+
+// Column headings for the zoom level, clipped to the range
+export function getTimelineHeaders(range: TimelineRange, zoom: TimelineZoom): TimelineHeader[] {
+  const interval = { start: range.start, end: range.end };
+  const periods = zoom === 'day'
+    ? eachDayOfInterval(interval)
+    : zoom === 'week'
+      ? eachWeekOfInterval(interval)
+      : eachMonthOfInterval(interval);
+
+  return periods.map((periodStart, index) => {
+    const start = periodStart < range.start ? range.start : periodStart;
+    const next = periods[index + 1] || addDays(range.end, 1);
+    return {
+      key: periodStart.toISOString(),
+      label: format(periodStart, zoom === 'day' ? 'EEE d' : zoom === 'week' ? 'MMM d' : 'MMM yyyy'),
+      offsetDays: differenceInCalendarDays(start, range.start),
+      days: differenceInCalendarDays(next, start)
+    };
+  });
+}
+
+// The supervisor who leads a user's team. Supervisors lead their own team and
+// members reporting straight to a manager fall under that manager.
+const getTeamLeadId = (user: User): string | undefined => {
+  if (user.role === UserRole.SUPERVISOR) return user.id;
+  return user.supervisorId || user.managerId;
+};
+
+export function groupTimelineTasks(
+  tasks: Task[],
+  groupBy: TimelineGroupBy,
+  resolveUser: (id: string) => User | undefined
+): TimelineGroup[] {
+  const groups = new Map<string, TimelineGroup>();
+
+  tasks.forEach(task => {
+    const assignee = resolveUser(getAssigneeId(task));
+    let key: string;
+    let label: string;
+
+    if (groupBy === 'assignee') {
+      key = assignee?.id || 'unassigned';
+      label = assignee?.name || 'Unassigned';
+    } else {
+      const leadId = assignee ? getTeamLeadId(assignee) : undefined;
+      const lead = leadId ? resolveUser(leadId) : undefined;
+      key = lead?.id || 'no-team';
+      label = lead ? `${lead.name}'s team` : 'No team';
+    }
+
+    if (!groups.has(key)) {
+      groups.set(key, { key, label, tasks: [] });
+    }
+    groups.get(key)!.tasks.push(task);
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({
+      ...group,
+      tasks: [...group.tasks].sort((a, b) => getTaskSpan(a).start.getTime() - getTaskSpan(b).start.getTime())
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+// New dates after dragging an edge (or the whole bar) by a number of days.
+// The start never passes the end, so a bar is always at least one day long.
+export function applyTimelineDrag(task: Task, edge: TimelineDragEdge, days: number): { assignedDate: string; targetDate: string } {
+  const assignedDate = new Date(task.assignedDate || task.targetDate);
+  const targetDate = new Date(task.targetDate);
+  const { start, end } = getTaskSpan(task);
+
+  if (edge === 'move') {
+    return {
+      assignedDate: addDays(assignedDate, days).toISOString(),
+      targetDate: addDays(targetDate, days).toISOString()
+    };
+  }
+
+  if (edge === 'start') {
+    const shift = Math.min(days, differenceInCalendarDays(end, start));
+    return { assignedDate: addDays(assignedDate, shift).toISOString(), targetDate: task.targetDate };
+  }
+
+  const shift = Math.max(days, differenceInCalendarDays(start, end));
+  return { assignedDate: task.assignedDate, targetDate: addDays(targetDate, shift).toISOString() };
+}
@@ -0,0 +1,91 @@
+import { Task, TimeEntry, User } from "./types";
+
+export interface LoggedTimeSummary {
+  totalMinutes: number;
+  byAssignee: Record<string, number>; // Keyed by user ID
+  byTag: Record<string, number>;
+}
+
+export const getEntryUserId = (entry: TimeEntry): string =>
+  typeof entry.userId === 'object' && entry.userId !== null ? entry.userId.id : String(entry.userId);
+
+// Minutes recorded by an entry; a running timer counts up to `now`
+export function getEntryMinutes(entry: TimeEntry, now: Date = new Date()): number {
+  if (!entry.endedAt) {
+    return Math.max(0, (now.getTime() - new Date(entry.startedAt).getTime()) / 60000);
+  }
+  return entry.durationMinutes;
+}
+
+export function getTotalLoggedMinutes(task: Task, now: Date = new Date()): number {
+  return (task.timeEntries || []).reduce((total, entry) => total + getEntryMinutes(entry, now), 0);
+}
+
+// The timer the user currently has running on a task, if any
+export function getRunningEntry(task: Task, userId: string): TimeEntry | undefined {
+  return (task.timeEntries || []).find(entry => !entry.endedAt && getEntryUserId(entry) === userId);
+}
+
+// Time entries can only be edited or deleted by the person who logged them
+export const canModifyTimeEntry = (currentUser: User, entry: TimeEntry): boolean =>
+  getEntryUserId(entry) === currentUser.id;
+
+// Format minutes as e.g. "2h 05m", "45m"
+export function formatDuration(minutes: number): string {
+  const rounded = Math.floor(minutes);
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  if (hours === 0) return `${mins}m`;
+  return `${hours}h ${mins.toString().padStart(2, '0')}m`;
+}
+
+// Live timer display, e.g. "1:02:09"
+export function formatElapsed(minutes: number): string {
+  const totalSeconds = Math.floor(minutes * 60);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+// Parse durations such as "90", "90m", "1.5h", "1h 30m" or "1:30" into minutes.
+// Returns null for anything unrecognised or not positive.
+export function parseDuration(input: string): number | null {
+  const value = input.trim().toLowerCase();
+  if (!value) return null;
+
+  let minutes: number | null = null;
+  const clock = /^(\d+):([0-5]\d)$/.exec(value);
+  const units = /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/.exec(value);
+
+  if (/^\d+$/.test(value)) {
+    minutes = parseInt(value, 10);
+  } else if (clock) {
+    minutes = parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+  } else if (units && (units[1] || units[2])) {
+    minutes = Math.round(parseFloat(units[1] || '0') * 60) + parseInt(units[2] || '0', 10);
+  }
+
+  return minutes && minutes > 0 ? minutes : null;
+}
+
+// Logged time across tasks, split by task assignee and by tag.
+// A task with several tags counts towards each of them.
+export function summarizeLoggedTime(tasks: Task[], now: Date = new Date()): LoggedTimeSummary {
+  const summary: LoggedTimeSummary = { totalMinutes: 0, byAssignee: {}, byTag: {} };
+
+  tasks.forEach(task => {
+    const minutes = getTotalLoggedMinutes(task, now);
+    if (minutes === 0) return;
+
+    summary.totalMinutes += minutes;
+    if (task.assigneeId) {
+      summary.byAssignee[task.assigneeId] = (summary.byAssignee[task.assigneeId] || 0) + minutes;
+    }
+    (task.tags || []).forEach(tag => {
+      summary.byTag[tag] = (summary.byTag[tag] || 0) + minutes;
+    });
+  });
+
+  return summary;
+}
@@ -45,7 +45,7 @@ export interface Task {
   createdBy?: string; // Track who created the task
   assignedDate: string;
   targetDate: string;
-  status: TaskStatus;
+  status: TaskStatus | string; // Workflow state ID; the defaults match TaskStatus
   priority?: TaskPriority | string; // Task priority
   tags?: string[]; // Array of tags for categorization
   remarks?: string; // NEW: Remarks field
@@ -58,6 +58,82 @@ export interface Task {
   creator?: User; // Populated creator object
   // Comments for task collaboration
   comments?: TaskComment[];
+  remarkMentions?: string[]; // IDs of users @mentioned in the remarks
+  attachments?: TaskAttachment[];
+  timeEntries?: TimeEntry[];
+  // Estimation
+  estimate?: number | null; // In the configured EstimateUnit
+  remainingEffort?: number | null; // Same unit as estimate
+  history?: TaskHistoryEntry[];
+  // Subtask hierarchy
+  parentTaskId?: string | null; // Parent task ID when this task is a subtask
+  order?: number; // Position among sibling subtasks
+  subtasks?: Task[]; // Child tasks, populated by buildTaskHierarchy
+  // Dependencies
+  blockedBy?: string[]; // IDs of tasks that must be completed before this one can start
+  // Recurrence
+  recurrence?: TaskRecurrence; // Schedule for generating the next instance
+  seriesId?: string; // ID of the first task in a recurring series
+  occurrenceIndex?: number; // 1-based position within the recurring series
+  // Overdue escalation
+  escalations?: TaskEscalation[]; // Escalations already raised, so none is sent twice
+  // Followers
+  watchers?: string[]; // IDs of users notified about status changes, comments and reassignment
+  // Assignment acceptance
+  acceptance?: TaskAcceptance; // Missing on tasks assigned before acceptance was tracked
+}
+
+export type AcceptanceStatus = 'pending' | 'accepted' | 'declined';
+
+export interface TaskAcceptance {
+  status: AcceptanceStatus;
+  assigneeId: string; // The assignee this answer is from; reassigning the task asks again
+  assignedBy: string;
+  assignedAt: string;
+  respondedAt?: string;
+  declineReason?: string;
+}
+
+export interface TaskTag {
+  id: string;
+  name: string; // Stored on Task.tags
+  color: string; // Hex colour used for tag chips
+  description?: string;
+  archived?: boolean; // Archived tags stay on existing tasks but are no longer suggested
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  titlePattern: string; // May contain {date}, {month} and {year} placeholders
+  description: string;
+  priority?: TaskPriority | string;
+  tags?: string[];
+  defaultAssigneeRole?: UserRole | string; // Pre-selects the first assignable user with this role
+  dueOffsetDays: number; // Target date is this many days after the task is created
+  subtasks?: string[]; // Subtask titles, created in order
+  createdBy?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'every_n_days';
+
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  weekdays?: number[]; // Weekly: days of the week, 0 = Sunday
+  dayOfMonth?: number; // Monthly: day N of the month (clamped to the month length)
+  intervalDays?: number; // Every N days
+  endAfterOccurrences?: number; // Stop after this many instances
+  endDate?: string; // Stop after this date
+}
+
+export interface SubtaskProgress {
+  completed: number;
+  total: number;
+  percentage: number; // 0-100
 }
 
 export interface TaskComment {
@@ -66,6 +142,118 @@ export interface TaskComment {
   author: string | User; // Can be user ID or populated user object
   createdAt: string;
   updatedAt?: string;
+  parentId?: string | null; // ID of the comment this one replies to
+  mentions?: string[]; // IDs of users @mentioned in the text
+}
+
+export interface TaskAttachment {
+  id: string;
+  name: string;
+  size: number; // Bytes
+  mimeType: string;
+  uploadedBy: string | User; // Can be user ID or populated user object
+  uploadedAt: string;
+}
+
+export type TaskHistoryField = 'title' | 'assigneeId' | 'targetDate' | 'status' | 'priority' | 'tags' | 'remarks' | 'estimate' | 'remainingEffort';
+
+export type TaskHistoryEvent =
+  | 'updated'
+  | 'reassigned'
+  | 'completed'
+  | 'reopened'
+  | 'reassignment_requested'
+  | 'reassignment_approved'
+  | 'reassignment_rejected'
+  | 'assignment_accepted'
+  | 'assignment_declined';
+
+export interface TaskHistoryEntry {
+  id?: string;
+  taskId: string;
+  actorId: string | User; // Who made the change
+  timestamp: string;
+  field: TaskHistoryField;
+  oldValue: string | string[] | null;
+  newValue: string | string[] | null;
+  event: TaskHistoryEvent;
+  note?: string; // Reason given with a reassignment request, its decision or a declined assignment
+}
+
+export type ReassignmentRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ReassignmentRequest {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  requestedBy: string;
+  currentAssigneeId: string; // Assignee when the request was made
+  suggestedAssigneeId: string;
+  reason: string;
+  approverId: string; // The task's creator, or the requester's supervisor
+  status: ReassignmentRequestStatus;
+  decisionNote?: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  createdAt: string;
+}
+
+export type EstimateUnit = 'hours' | 'points';
+
+export interface TimeEntry {
+  id: string;
+  userId: string | User; // Who logged the time
+  startedAt: string;
+  endedAt?: string | null; // Null while a timer is running
+  durationMinutes: number; // Final duration; 0 while running
+  note?: string;
+  manual?: boolean; // Logged by hand rather than with the timer
+}
+
+// Workflow configuration interfaces
+export interface WorkflowState {
+  id: string; // Stored on Task.status
+  name: string; // Display label, e.g. "In Review"
+  category: TaskStatus; // Reporting bucket this state counts towards
+  color: string; // Hex colour used for badges and charts
+  order: number; // Position on boards and in menus
+}
+
+export interface WorkflowTransition {
+  from: string; // WorkflowState ID
+  to: string; // WorkflowState ID
+  roles: string[]; // User roles allowed to make this transition
+}
+
+export interface WorkflowConfig {
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+  updatedAt?: string;
+}
+
+// Overdue escalation interfaces
+export type EscalationLevel = 'supervisor' | 'manager';
+
+export interface EscalationStep {
+  level: EscalationLevel;
+  afterHours: number; // Hours past the target date before this level is notified
+}
+
+export interface EscalationRule {
+  priority: TaskPriority | string;
+  steps: EscalationStep[];
+}
+
+export interface EscalationConfig {
+  rules: EscalationRule[];
+  updatedAt?: string;
+}
+
+export interface TaskEscalation {
+  level: EscalationLevel;
+  recipientId: string; // User who was notified
+  targetDate: string; // Target date when escalated, so a rescheduled task can escalate again
+  escalatedAt: string;
 }
 
 export interface Report {
@@ -100,6 +288,9 @@ export interface ReportSummary {
   overdueTasks: number;
   averageCompletionTime?: number; // in days
   productivityScore?: number; // 0-100
+  totalLoggedMinutes?: number;
+  loggedMinutesByAssignee?: Record<string, number>; // Keyed by user ID
+  loggedMinutesByTag?: Record<string, number>;
 }
 
 export interface StatusCount {
@@ -179,6 +370,11 @@ export interface TaskFormData {
   priority: TaskPriority;
   tags: string[];
   status?: TaskStatus;
+  parentTaskId?: string;
+  blockedBy?: string[];
+  recurrence?: TaskRecurrence;
+  estimate?: number | null;
+  remainingEffort?: number | null;
 }
 
 export interface UserFormData {
@@ -192,15 +388,41 @@ export interface UserFormData {
 
 // Filter and search interfaces
 export interface TaskFilters {
-  status?: TaskStatus[];
+  status?: (TaskStatus | string)[]; // Workflow state IDs
   priority?: TaskPriority[];
   assignees?: string[];
   dateRange?: {
-    start: string;
+    start: string; // Target date bounds (yyyy-MM-dd); either may be empty
     end: string;
   };
   tags?: string[];
   search?: string;
+  overdue?: boolean;
+}
+
+export type TaskSortField = 'targetDate' | 'priority' | 'title' | 'status' | 'lastUpdated';
+
+export interface TaskSort {
+  field: TaskSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface SavedTaskView {
+  id: string;
+  name: string;
+  userId: string; // Owner; views are saved per user
+  filters: TaskFilters;
+  sort?: TaskSort;
+  pinned?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Secret per-user URL that calendar clients subscribe to. The server renders
+// the user's assigned tasks as iCalendar entries at this address.
+export interface CalendarFeed {
+  url: string;
+  createdAt: string;
 }
 
 export interface UserFilters {
@@ -214,13 +436,14 @@ export interface UserFilters {
 // Notification interfaces
 export interface Notification {
   id: string;
-  type: 'task_assigned' | 'task_completed' | 'task_overdue' | 'user_approved' | 'comment_added';
+  type: 'task_assigned' | 'task_completed' | 'task_overdue' | 'user_approved' | 'comment_added' | 'status_changed' | 'task_reassigned' | 'reassignment_requested' | 'reassignment_decided' | 'assignment_response';
   title: string;
   message: string;
   read: boolean;
   createdAt: string;
   relatedId?: string; // Task ID, User ID, etc.
   actionUrl?: string;
+  userId?: string; // Recipient
 }
 
 // Dashboard interfaces
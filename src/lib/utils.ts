@@ -2,7 +2,9 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { format, isAfter, isBefore, isToday, parseISO, addDays } from "date-fns"
-import { Task, TaskStatus } from "./types"
+import { ReportSummary, Task, TaskPriority, TaskStatus } from "./types"
+import { getStatusCategory, getWorkflowState, isCompletedStatus } from "./workflow"
+import { summarizeLoggedTime } from "./timeTracking"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -39,7 +41,7 @@ export function getTaskStatusColor(task: Task): string {
   const nearDeadline = isBefore(today, targetDate) && 
                         isAfter(today, addDays(targetDate, -3))
   
-  if (task.status === TaskStatus.COMPLETED) {
+  if (isCompletedStatus(task.status)) {
     return "completed" // Green
   } else if (isBefore(targetDate, today)) {
     return "overdue" // Red
@@ -50,18 +52,13 @@ export function getTaskStatusColor(task: Task): string {
   }
 }
 
-// Format status for display
-export function formatStatus(status: TaskStatus): string {
-  switch (status) {
-    case TaskStatus.COMPLETED:
-      return "Completed"
-    case TaskStatus.IN_PROGRESS:
-      return "In Progress"
-    case TaskStatus.NOT_STARTED:
-      return "Not Started"
-    default:
-      return status
-  }
+// Format status for display using the configured workflow state name
+export function formatStatus(status: TaskStatus | string): string {
+  return getWorkflowState(status).name
+}
+
+export function formatPriority(priority: TaskPriority | string): string {
+  return priority.charAt(0).toUpperCase() + priority.slice(1)
 }
 
 // Calculate task status counts
@@ -70,16 +67,17 @@ export function calculateStatusCounts(tasks: Task[]) {
   
   return tasks.reduce((counts, task) => {
     const targetDate = parseISO(task.targetDate)
+    const category = getStatusCategory(task.status)
     
-    if (task.status === TaskStatus.COMPLETED) {
+    if (category === TaskStatus.COMPLETED) {
       counts.completed++
-    } else if (task.status === TaskStatus.IN_PROGRESS) {
+    } else if (category === TaskStatus.IN_PROGRESS) {
       counts.inProgress++
-    } else if (task.status === TaskStatus.NOT_STARTED) {
+    } else if (category === TaskStatus.NOT_STARTED) {
       counts.notStarted++
     }
     
-    if (task.status !== TaskStatus.COMPLETED && isBefore(targetDate, today)) {
+    if (category !== TaskStatus.COMPLETED && isBefore(targetDate, today)) {
       counts.overdue++
     }
     
@@ -87,6 +85,23 @@ export function calculateStatusCounts(tasks: Task[]) {
   }, { completed: 0, inProgress: 0, notStarted: 0, overdue: 0 })
 }
 
+// Build a report summary, including logged time per assignee and per tag
+export function calculateReportSummary(tasks: Task[]): ReportSummary {
+  const counts = calculateStatusCounts(tasks)
+  const loggedTime = summarizeLoggedTime(tasks)
+  
+  return {
+    totalTasks: tasks.length,
+    completedTasks: counts.completed,
+    inProgressTasks: counts.inProgress,
+    notStartedTasks: counts.notStarted,
+    overdueTasks: counts.overdue,
+    totalLoggedMinutes: loggedTime.totalMinutes,
+    loggedMinutesByAssignee: loggedTime.byAssignee,
+    loggedMinutesByTag: loggedTime.byTag
+  }
+}
+
 // Generate initials from name
 export function getInitials(name: string): string {
   return name
@@ -95,3 +110,13 @@ export function getInitials(name: string): string {
     .join('')
     .toUpperCase()
 }
+
+// Save generated content as a file in the browser
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,35 @@
+import { Task, User } from "./types";
+import { getAssigneeId } from "./taskFilters";
+
+const getCommentAuthorIds = (task: Task): string[] =>
+  (task.comments || []).map(comment =>
+    typeof comment.author === 'object' && comment.author !== null ? (comment.author as User).id : comment.author as string
+  );
+
+// Add users to a watcher list, keeping its order and skipping duplicates
+export function addWatcherIds(watcherIds: string[], userIds: (string | undefined)[]): string[] {
+  const watchers = [...watcherIds];
+  userIds.forEach(userId => {
+    if (userId && !watchers.includes(userId)) watchers.push(userId);
+  });
+  return watchers;
+}
+
+// The creator, assignee and commenters follow a task until they unfollow it
+export function getDefaultWatcherIds(task: Task): string[] {
+  return addWatcherIds([], [task.createdBy, getAssigneeId(task), ...getCommentAuthorIds(task)]);
+}
+
+// Tasks created before watchers were stored fall back to the default followers
+export function getWatcherIds(task: Task): string[] {
+  return Array.isArray(task.watchers) ? task.watchers : getDefaultWatcherIds(task);
+}
+
+export function isWatching(task: Task, userId: string): boolean {
+  return getWatcherIds(task).includes(userId);
+}
+
+// Watchers to notify about a change, leaving out whoever made it
+export function getWatchersToNotify(task: Task, actorId: string, excludeIds: string[] = []): string[] {
+  return getWatcherIds(task).filter(userId => userId !== actorId && !excludeIds.includes(userId));
+}
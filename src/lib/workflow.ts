@@ -0,0 +1,157 @@
+import { TaskStatus, UserRole, WorkflowConfig, WorkflowState, WorkflowTransition } from "./types";
+
+const WORKFLOW_STORAGE_KEY = 'workflowConfig';
+
+const ALL_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.MANAGER, UserRole.SUPERVISOR, UserRole.MEMBER];
+
+const DEFAULT_STATES: WorkflowState[] = [
+  { id: TaskStatus.NOT_STARTED, name: 'Not Started', category: TaskStatus.NOT_STARTED, color: '#6b7280', order: 0 },
+  { id: TaskStatus.IN_PROGRESS, name: 'In Progress', category: TaskStatus.IN_PROGRESS, color: '#2196f3', order: 1 },
+  { id: TaskStatus.COMPLETED, name: 'Completed', category: TaskStatus.COMPLETED, color: '#4caf50', order: 2 },
+];
+
+// Every state can move to every other state, for every role
+export const buildOpenTransitions = (states: WorkflowState[]): WorkflowTransition[] =>
+  states.flatMap(from =>
+    states
+      .filter(to => to.id !== from.id)
+      .map(to => ({ from: from.id, to: to.id, roles: [...ALL_ROLES] }))
+  );
+
+// The built-in three-state workflow, used until an admin defines one
+export const DEFAULT_WORKFLOW: WorkflowConfig = {
+  states: DEFAULT_STATES,
+  transitions: buildOpenTransitions(DEFAULT_STATES),
+};
+
+export const WORKFLOW_CATEGORIES: { value: TaskStatus; label: string }[] = [
+  { value: TaskStatus.NOT_STARTED, label: 'Not Started' },
+  { value: TaskStatus.IN_PROGRESS, label: 'In Progress' },
+  { value: TaskStatus.COMPLETED, label: 'Completed' },
+];
+
+export const WORKFLOW_ROLES = ALL_ROLES;
+
+// Get the workflow synchronously from the local cache (see fetchWorkflowConfig)
+export function getWorkflowConfig(): WorkflowConfig {
+  try {
+    const cached = localStorage.getItem(WORKFLOW_STORAGE_KEY);
+    if (cached) {
+      const config = JSON.parse(cached) as WorkflowConfig;
+      if (Array.isArray(config.states) && config.states.length > 0) {
+        return config;
+      }
+    }
+  } catch (error) {
+    console.error('Error reading cached workflow:', error);
+  }
+  return DEFAULT_WORKFLOW;
+}
+
+export function cacheWorkflowConfig(config: WorkflowConfig): void {
+  try {
+    localStorage.setItem(WORKFLOW_STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Error caching workflow:', error);
+  }
+}
+
+// Workflow states in display order
+export function getWorkflowStates(config: WorkflowConfig = getWorkflowConfig()): WorkflowState[] {
+  return [...config.states].sort((a, b) => a.order - b.order);
+}
+
+// Look up a state, falling back to a synthetic one for unknown IDs
+export function getWorkflowState(status: string, config: WorkflowConfig = getWorkflowConfig()): WorkflowState {
+  const state = config.states.find(s => s.id === status);
+  if (state) return state;
+
+  const fallback = DEFAULT_STATES.find(s => s.id === status);
+  return fallback || { id: status, name: status, category: TaskStatus.NOT_STARTED, color: '#6b7280', order: Number.MAX_SAFE_INTEGER };
+}
+
+// The reporting category (one of the TaskStatus values) a state counts towards
+export function getStatusCategory(status: string, config: WorkflowConfig = getWorkflowConfig()): TaskStatus {
+  return getWorkflowState(status, config).category;
+}
+
+export function isCompletedStatus(status: string, config: WorkflowConfig = getWorkflowConfig()): boolean {
+  return getStatusCategory(status, config) === TaskStatus.COMPLETED;
+}
+
+// The first state (in display order) belonging to a category
+export function getDefaultStateForCategory(category: TaskStatus, config: WorkflowConfig = getWorkflowConfig()): WorkflowState | undefined {
+  return getWorkflowStates(config).find(s => s.category === category);
+}
+
+// A task left on a state that has since been removed from the workflow may move to any state
+const isRemovedState = (status: string, config: WorkflowConfig): boolean =>
+  !config.states.some(s => s.id === status);
+
+// States a user with the given role may move a task to from its current state
+export function getAllowedTransitions(
+  fromStatus: string,
+  role: string,
+  config: WorkflowConfig = getWorkflowConfig()
+): WorkflowState[] {
+  if (isRemovedState(fromStatus, config)) return getWorkflowStates(config);
+
+  const allowedIds = new Set(
+    config.transitions
+      .filter(t => t.from === fromStatus && t.roles.includes(role))
+      .map(t => t.to)
+  );
+  return getWorkflowStates(config).filter(s => allowedIds.has(s.id));
+}
+
+export function canTransition(
+  fromStatus: string,
+  toStatus: string,
+  role: string,
+  config: WorkflowConfig = getWorkflowConfig()
+): boolean {
+  if (fromStatus === toStatus) return true;
+  if (isRemovedState(fromStatus, config)) return config.states.some(s => s.id === toStatus);
+  return config.transitions.some(t => t.from === fromStatus && t.to === toStatus && t.roles.includes(role));
+}
+
+// The first allowed target state in a category, e.g. where "Complete" should go
+export function getTransitionTargetInCategory(
+  fromStatus: string,
+  category: TaskStatus,
+  role: string,
+  config: WorkflowConfig = getWorkflowConfig()
+): WorkflowState | undefined {
+  return getAllowedTransitions(fromStatus, role, config).find(s => s.category === category);
+}
+
+// Check a workflow definition before it is saved
+export function validateWorkflowConfig(config: WorkflowConfig): { isValid: boolean; error?: string } {
+  if (config.states.length === 0) {
+    return { isValid: false, error: 'At least one state is required' };
+  }
+
+  const ids = new Set<string>();
+  for (const state of config.states) {
+    if (!state.name.trim()) {
+      return { isValid: false, error: 'Every state needs a name' };
+    }
+    if (ids.has(state.id)) {
+      return { isValid: false, error: `Duplicate state "${state.name}"` };
+    }
+    ids.add(state.id);
+  }
+
+  for (const category of WORKFLOW_CATEGORIES) {
+    if (!config.states.some(s => s.category === category.value)) {
+      return { isValid: false, error: `At least one state must map to "${category.label}"` };
+    }
+  }
+
+  const danglingTransition = config.transitions.find(t => !ids.has(t.from) || !ids.has(t.to));
+  if (danglingTransition) {
+    return { isValid: false, error: 'Transitions reference a state that no longer exists' };
+  }
+
+  return { isValid: true };
+}
@@ -15,8 +15,14 @@ import { calculateStatusCounts, getInitials } from "@/lib/utils";
 import { BarChart, CalendarClock, CheckCircle, Clock, ListTodo, Plus, Users, X } from "lucide-react";
 import { getTasksForTeam, getTeamMembers, updateTaskStatus, getAllTasks, getTasksForUser } from "@/lib/dataService.ts";
 import { TaskDetailsList } from "@/components/dashboard/TaskDetailsList";
+import { TaskExportMenu } from "@/components/dashboard/TaskExportMenu";
 import { TeamMembersList } from "@/components/dashboard/TeamMembersList";
+import { PendingAcceptances } from "@/components/dashboard/PendingAcceptances";
+import { UnacknowledgedAssignments } from "@/components/dashboard/UnacknowledgedAssignments";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { buildTaskHierarchy, flattenTaskHierarchy } from "@/lib/taskHierarchy";
+import { getOpenBlockers } from "@/lib/taskDependencies";
+import { getStatusCategory } from "@/lib/workflow";
 
 // Context type for user data from AppLayout
 interface AppLayoutContext {
@@ -100,7 +106,7 @@ export default function Dashboard() {
         }
         
         setTeamMembers(Array.isArray(members) ? members : []);
-        setTeamTasks(Array.isArray(tasks) ? tasks : []);
+        setTeamTasks(Array.isArray(tasks) ? buildTaskHierarchy(tasks) : []);
         
         console.log('Dashboard: Data loaded successfully', {
           members: members.length,
@@ -123,8 +129,11 @@ export default function Dashboard() {
     }
   }, [currentUser, refreshKey]);
 
+  // Stats count every task, including subtasks nested in the hierarchy
+  const allTasks = flattenTaskHierarchy(teamTasks);
+
   // Calculate stats safely
-  const statusCounts = teamTasks.length > 0 ? calculateStatusCounts(teamTasks) : {
+  const statusCounts = allTasks.length > 0 ? calculateStatusCounts(allTasks) : {
     completed: 0,
     inProgress: 0,
     overdue: 0,
@@ -132,16 +141,16 @@ export default function Dashboard() {
   };
   
   // Filter tasks by status safely
-  const completedTasks = teamTasks.filter(task => task.status === TaskStatus.COMPLETED);
-  const inProgressTasks = teamTasks.filter(task => task.status === TaskStatus.IN_PROGRESS);
-  const overdueTasks = teamTasks.filter(task => {
+  const completedTasks = allTasks.filter(task => getStatusCategory(task.status) === TaskStatus.COMPLETED);
+  const inProgressTasks = allTasks.filter(task => getStatusCategory(task.status) === TaskStatus.IN_PROGRESS);
+  const overdueTasks = allTasks.filter(task => {
     const today = new Date();
     const dueDate = new Date(task.targetDate);
-    return dueDate < today && task.status !== TaskStatus.COMPLETED;
+    return dueDate < today && getStatusCategory(task.status) !== TaskStatus.COMPLETED;
   });
   
   // Recent tasks (limited to 5)
-  const recentTasks = [...teamTasks]
+  const recentTasks = [...allTasks]
     .sort((a, b) => new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime())
     .slice(0, 5);
 
@@ -303,6 +312,12 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {/* Assignment acceptance */}
+      <PendingAcceptances tasks={allTasks} currentUser={currentUser} onEdit={handleEditTask} onResponded={handleTaskSuccess} />
+      {currentUser.role !== 'member' && (
+        <UnacknowledgedAssignments tasks={allTasks} onEdit={handleEditTask} />
+      )}
+
       {/* Tasks Overview */}
       <Tabs defaultValue="recent" className="space-y-4">
         <div className="flex items-center justify-between">
@@ -325,6 +340,7 @@ export default function Dashboard() {
                 task={task} 
                 onEdit={handleEditTask} 
                 refetch={handleTaskSuccess}
+                openBlockers={getOpenBlockers(task, allTasks)}
               />
             ))}
             {recentTasks.length === 0 && (
@@ -346,6 +362,7 @@ export default function Dashboard() {
                 task={task} 
                 onEdit={handleEditTask} 
                 refetch={handleTaskSuccess}
+                openBlockers={getOpenBlockers(task, allTasks)}
               />
             ))}
             {teamTasks.length === 0 && (
@@ -372,6 +389,7 @@ export default function Dashboard() {
         onOpenChange={setIsTaskFormOpen}
         task={selectedTask}
         onSuccess={handleTaskSuccess}
+        availableTasks={allTasks}
       />
 
       {/* Team Members Dialog */}
@@ -390,11 +408,12 @@ export default function Dashboard() {
       {/* Completed Tasks Dialog */}
       <DialogComponent open={completedTasksDialogOpen} onOpenChange={setCompletedTasksDialogOpen}>
         <DialogContentComponent className="sm:max-w-[600px]">
-          <DialogHeaderComponent>
+          <DialogHeaderComponent className="flex-row items-center justify-between gap-2 pr-8">
             <DialogTitleComponent className="flex items-center gap-2">
               <CheckCircle className="h-5 w-5" />
               Completed Tasks ({completedTasks.length})
             </DialogTitleComponent>
+            <TaskExportMenu tasks={completedTasks} name="Completed tasks" />
           </DialogHeaderComponent>
           <TaskDetailsList 
             tasks={completedTasks} 
@@ -408,11 +427,12 @@ export default function Dashboard() {
       {/* In Progress Tasks Dialog */}
       <DialogComponent open={inProgressTasksDialogOpen} onOpenChange={setInProgressTasksDialogOpen}>
         <DialogContentComponent className="sm:max-w-[600px]">
-          <DialogHeaderComponent>
+          <DialogHeaderComponent className="flex-row items-center justify-between gap-2 pr-8">
             <DialogTitleComponent className="flex items-center gap-2">
               <Clock className="h-5 w-5" />
               In Progress Tasks ({inProgressTasks.length})
             </DialogTitleComponent>
+            <TaskExportMenu tasks={inProgressTasks} name="In progress tasks" />
           </DialogHeaderComponent>
           <TaskDetailsList 
             tasks={inProgressTasks} 
@@ -426,11 +446,12 @@ export default function Dashboard() {
       {/* Overdue Tasks Dialog */}
       <DialogComponent open={overdueTasksDialogOpen} onOpenChange={setOverdueTasksDialogOpen}>
         <DialogContentComponent className="sm:max-w-[600px]">
-          <DialogHeaderComponent>
+          <DialogHeaderComponent className="flex-row items-center justify-between gap-2 pr-8">
             <DialogTitleComponent className="flex items-center gap-2">
               <CalendarClock className="h-5 w-5" />
               Overdue Tasks ({overdueTasks.length})
             </DialogTitleComponent>
+            <TaskExportMenu tasks={overdueTasks} name="Overdue tasks" />
           </DialogHeaderComponent>
           <TaskDetailsList 
             tasks={overdueTasks} 
@@ -1,18 +1,28 @@
 
 import { useState, useEffect } from "react";
+import { useOutletContext } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ReportForm } from "@/components/reports/ReportForm";
+import { BurndownChart } from "@/components/reports/BurndownChart";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { BarChart3, CalendarDays, Download, FileText, Printer, ArrowDown, ArrowUp } from "lucide-react";
-import { getReports, getTaskById, getUserById } from "@/lib/dataService.ts";
-import { formatDate } from "@/lib/utils";
+import { BarChart3, CalendarDays, Download, FileText, Printer, ArrowDown, ArrowUp, TrendingDown } from "lucide-react";
+import { getReports, getUserById, getVisibleTasks } from "@/lib/dataService.ts";
+import { calculateReportSummary, formatDate } from "@/lib/utils";
+import { formatDuration } from "@/lib/timeTracking";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
-import { Task, TaskStatus } from "@/lib/types";
+import { ReportSummary, Task, User } from "@/lib/types";
+import { flattenTaskHierarchy } from "@/lib/taskHierarchy";
+import { getWorkflowState, getWorkflowStates, isCompletedStatus } from "@/lib/workflow";
+
+// Context type for user data from AppLayout
+interface AppLayoutContext {
+  currentUser: User;
+}
 
 type SortDirection = 'asc' | 'desc' | null;
 type SortableColumn = 'title' | 'status' | 'assignee' | 'assignedDate' | 'targetDate' | 'completedDate';
@@ -26,12 +36,25 @@ export default function Reports() {
   const [isViewReportOpen, setIsViewReportOpen] = useState(false);
   const [sortColumn, setSortColumn] = useState<SortableColumn | null>(null);
   const [sortDirection, setSortDirection] = useState<SortDirection>(null);
+  const [visibleTasks, setVisibleTasks] = useState<Task[]>([]);
   const isMobile = useIsMobile();
+  const { currentUser } = useOutletContext<AppLayoutContext>();
   
   useEffect(() => {
     // Load reports from data service
-    setReports(getReports());
+    getReports().then(setReports);
   }, [refreshKey]);
+
+  // Load the tasks this user can see, for new reports, report details and the burndown chart
+  useEffect(() => {
+    if (!currentUser?.id) return;
+
+    getVisibleTasks(currentUser)
+      .then(tasks => setVisibleTasks(Array.isArray(tasks) ? flattenTaskHierarchy(tasks) : []))
+      .catch(error => console.error('Reports: Error loading tasks:', error));
+  }, [currentUser, refreshKey]);
+
+  const findTask = (id: string): Task | undefined => visibleTasks.find(task => task.id === id);
   
   const filteredReports = reports.filter(report => report.type === reportType);
   
@@ -46,7 +69,7 @@ export default function Reports() {
     const reportData = {
       ...report,
       tasks: report.taskIds.map(id => {
-        const task = getTaskById(id);
+        const task = findTask(id);
         return task ? {
           title: task.title,
           status: task.status,
@@ -79,7 +102,7 @@ export default function Reports() {
     if (!selectedReport) return [];
     
     return selectedReport.taskIds.map(id => {
-      const task = getTaskById(id);
+      const task = findTask(id);
       return task || { id, title: "Unknown task", status: "unknown" };
     });
   };
@@ -101,8 +124,8 @@ export default function Reports() {
         valueA = userA?.name || 'Unknown';
         valueB = userB?.name || 'Unknown';
       } else if (sortColumn === 'completedDate') {
-        valueA = a.status === TaskStatus.COMPLETED ? a.lastUpdated : '';
-        valueB = b.status === TaskStatus.COMPLETED ? b.lastUpdated : '';
+        valueA = isCompletedStatus(a.status) ? a.lastUpdated : '';
+        valueB = isCompletedStatus(b.status) ? b.lastUpdated : '';
       } else {
         valueA = a[sortColumn] || '';
         valueB = b[sortColumn] || '';
@@ -150,33 +173,45 @@ export default function Reports() {
 
   // Prepare data for charts
   const prepareChartData = () => {
-    // Count tasks by status for all reports of the selected type
-    const statusCounts = { completed: 0, inProgress: 0, notStarted: 0 };
+    // Count tasks by workflow state for all reports of the selected type
+    const statusCounts: Record<string, number> = {};
     
     filteredReports.forEach(report => {
       report.taskIds.forEach(taskId => {
-        const task = getTaskById(taskId);
+        const task = findTask(taskId);
         if (task) {
-          if (task.status === TaskStatus.COMPLETED) {
-            statusCounts.completed++;
-          } else if (task.status === TaskStatus.IN_PROGRESS) {
-            statusCounts.inProgress++;
-          } else if (task.status === TaskStatus.NOT_STARTED) {
-            statusCounts.notStarted++;
-          }
+          statusCounts[task.status] = (statusCounts[task.status] || 0) + 1;
         }
       });
     });
     
-    return [
-      { name: 'Completed', value: statusCounts.completed },
-      { name: 'In Progress', value: statusCounts.inProgress },
-      { name: 'Not Started', value: statusCounts.notStarted }
-    ];
+    return getWorkflowStates().map(state => ({
+      name: state.name,
+      value: statusCounts[state.id] || 0,
+      color: state.color
+    }));
   };
 
   const chartData = prepareChartData();
-  const COLORS = ['#4caf50', '#2196f3', '#ff9800'];
+
+  // Status counts and logged time for the selected report (placeholders for missing tasks are skipped).
+  // Reports saved before time tracking have no logged time, so those fields are filled in from the tasks.
+  const getSelectedSummary = (): ReportSummary | null => {
+    if (!selectedReport) return null;
+
+    const computed = calculateReportSummary(getReportTasks().filter((task: Task) => task.targetDate));
+    const stored = selectedReport.summary;
+    if (!stored) return computed;
+
+    return {
+      ...stored,
+      totalLoggedMinutes: stored.totalLoggedMinutes ?? computed.totalLoggedMinutes,
+      loggedMinutesByAssignee: stored.loggedMinutesByAssignee ?? computed.loggedMinutesByAssignee,
+      loggedMinutesByTag: stored.loggedMinutesByTag ?? computed.loggedMinutesByTag
+    };
+  };
+
+  const selectedSummary = getSelectedSummary();
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -218,6 +253,10 @@ export default function Reports() {
             <BarChart3 className="h-4 w-4 mr-2" />
             Analytics
           </TabsTrigger>
+          <TabsTrigger value="burndown" className={isMobile ? 'flex-1' : ''}>
+            <TrendingDown className="h-4 w-4 mr-2" />
+            Burndown
+          </TabsTrigger>
         </TabsList>
         <TabsContent value="list">
           <div className="space-y-4">
@@ -260,7 +299,7 @@ export default function Reports() {
                       <p>Contains {report.taskIds.length} tasks</p>
                       <ul className="mt-2 space-y-1 list-disc list-inside">
                         {report.taskIds.slice(0, 3).map(taskId => {
-                          const task = getTaskById(taskId);
+                          const task = findTask(taskId);
                           return (
                             <li key={taskId} className="truncate">{task?.title || "Unknown task"}</li>
                           );
@@ -325,7 +364,7 @@ export default function Reports() {
                           dataKey="value"
                         >
                           {chartData.map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                            <Cell key={`cell-${index}`} fill={entry.color} />
                           ))}
                         </Pie>
                         <Tooltip />
@@ -342,7 +381,11 @@ export default function Reports() {
                         <YAxis />
                         <Tooltip />
                         <Legend />
-                        <Bar dataKey="value" name="Tasks" fill="#8884d8" />
+                        <Bar dataKey="value" name="Tasks" fill="#8884d8">
+                          {chartData.map((entry, index) => (
+                            <Cell key={`bar-${index}`} fill={entry.color} />
+                          ))}
+                        </Bar>
                       </BarChart>
                     </ResponsiveContainer>
                   </div>
@@ -361,6 +404,19 @@ export default function Reports() {
             </CardContent>
           </Card>
         </TabsContent>
+        <TabsContent value="burndown">
+          <Card>
+            <CardHeader>
+              <CardTitle>Burndown</CardTitle>
+              <CardDescription>
+                Ideal vs. actual remaining effort for estimated tasks over a date range
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BurndownChart tasks={visibleTasks} />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
       
       {/* Report Form Dialog */}
@@ -368,6 +424,7 @@ export default function Reports() {
         open={isReportFormOpen}
         onOpenChange={setIsReportFormOpen}
         onSuccess={handleReportSuccess}
+        tasks={visibleTasks}
       />
 
       {/* View Full Report Dialog */}
@@ -430,21 +487,18 @@ export default function Reports() {
                     <TableRow key={task.id}>
                       <TableCell className="font-medium">{task.title}</TableCell>
                       <TableCell>
-                        <div className={`px-2 py-1 rounded-full text-xs inline-flex items-center ${
-                          task.status === TaskStatus.COMPLETED 
-                            ? 'bg-green-100 text-green-800' 
-                            : task.status === TaskStatus.IN_PROGRESS 
-                              ? 'bg-blue-100 text-blue-800' 
-                              : 'bg-gray-100 text-gray-800'
-                        }`}>
-                          {task.status}
+                        <div 
+                          className="px-2 py-1 rounded-full text-xs inline-flex items-center border"
+                          style={{ color: getWorkflowState(task.status).color, borderColor: getWorkflowState(task.status).color }}
+                        >
+                          {getWorkflowState(task.status).name}
                         </div>
                       </TableCell>
                       <TableCell>{assignee?.name || 'Unknown'}</TableCell>
                       <TableCell>{task.assignedDate ? formatDate(task.assignedDate) : 'N/A'}</TableCell>
                       <TableCell>{task.targetDate ? formatDate(task.targetDate) : 'N/A'}</TableCell>
                       <TableCell>
-                        {task.status === TaskStatus.COMPLETED 
+                        {isCompletedStatus(task.status) 
                           ? formatDate(task.completedDate || task.lastUpdated) 
                           : '-'}
                       </TableCell>
@@ -455,6 +509,58 @@ export default function Reports() {
             </Table>
           </div>
           
+          {selectedSummary?.totalLoggedMinutes > 0 && (
+            <div className="mt-6">
+              <h3 className="text-lg font-medium mb-2">
+                Time logged <span className="text-muted-foreground font-normal">({formatDuration(selectedSummary.totalLoggedMinutes)})</span>
+              </h3>
+              <div className="grid gap-4 md:grid-cols-2">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Assignee</TableHead>
+                      <TableHead className="text-right">Hours</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(selectedSummary.loggedMinutesByAssignee || {})
+                      .sort(([, a], [, b]) => b - a)
+                      .map(([userId, minutes]) => (
+                        <TableRow key={userId}>
+                          <TableCell>{getUserById(userId)?.name || 'Unknown'}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatDuration(minutes)}</TableCell>
+                        </TableRow>
+                      ))}
+                  </TableBody>
+                </Table>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tag</TableHead>
+                      <TableHead className="text-right">Hours</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(selectedSummary.loggedMinutesByTag || {}).length > 0 ? (
+                      Object.entries(selectedSummary.loggedMinutesByTag)
+                        .sort(([, a], [, b]) => b - a)
+                        .map(([tag, minutes]) => (
+                          <TableRow key={tag}>
+                            <TableCell>{tag}</TableCell>
+                            <TableCell className="text-right tabular-nums">{formatDuration(minutes)}</TableCell>
+                          </TableRow>
+                        ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={2} className="text-muted-foreground">No tagged tasks</TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+          
           <div className="flex justify-end gap-2 mt-4">
             <Button variant="outline" onClick={() => setIsViewReportOpen(false)}>
               Close
@@ -1,9 +1,25 @@
-
+import { useOutletContext } from "react-router-dom";
 import { ProfileSettings } from "@/components/settings/ProfileSettings";
 import { NotificationSettings } from "@/components/settings/NotificationSettings";
 import { SecuritySettings } from "@/components/settings/SecuritySettings";
+import { CalendarFeedSettings } from "@/components/settings/CalendarFeedSettings";
+import { WorkflowSettings } from "@/components/settings/WorkflowSettings";
+import { EstimationSettings } from "@/components/settings/EstimationSettings";
+import { TemplateSettings } from "@/components/settings/TemplateSettings";
+import { TagSettings } from "@/components/settings/TagSettings";
+import { EscalationSettings } from "@/components/settings/EscalationSettings";
+import { User } from "@/lib/types";
+import { canManageTemplates } from "@/lib/taskTemplates";
+
+// Context type for user data from AppLayout
+interface AppLayoutContext {
+  currentUser: User;
+}
 
 export default function Settings() {
+  const { currentUser } = useOutletContext<AppLayoutContext>();
+  const isSuperAdmin = currentUser?.role === 'super_admin';
+
   return (
     <div className="space-y-6 animate-fade-in">
       <div>
@@ -20,6 +36,20 @@ export default function Settings() {
           <SecuritySettings />
         </div>
       </div>
+
+      <CalendarFeedSettings />
+
+      {/* Administration */}
+      {isSuperAdmin && (
+        <div className="space-y-6">
+          <EstimationSettings />
+          <WorkflowSettings />
+          <EscalationSettings />
+          <TagSettings />
+        </div>
+      )}
+
+      {currentUser && canManageTemplates(currentUser) && <TemplateSettings />}
     </div>
   );
 }
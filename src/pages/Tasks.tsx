@@ -2,34 +2,65 @@ import { useState, useEffect } from "react";
 import { useSearchParams, useOutletContext } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { TaskCard } from "@/components/dashboard/TaskCard";
 import { TaskForm } from "@/components/dashboard/TaskForm";
-import { Task, TaskStatus, User } from "@/lib/types";
-import { Plus, Search } from "lucide-react";
-import { getAllTasks, getTasksForUser, getTasksForTeam } from "@/lib/dataService.ts";
+import { TaskBoard } from "@/components/dashboard/TaskBoard";
+import { BoardSwimlane, getBoardTaskIds } from "@/lib/taskBoard";
+import { TaskCalendar } from "@/components/dashboard/TaskCalendar";
+import { TaskTimeline } from "@/components/dashboard/TaskTimeline";
+import { BulkActionBar } from "@/components/dashboard/BulkActionBar";
+import { TaskFilterPanel } from "@/components/dashboard/TaskFilterPanel";
+import { SavedViewsBar } from "@/components/dashboard/SavedViewsBar";
+import { TaskExportMenu } from "@/components/dashboard/TaskExportMenu";
+import { ImportTasksDialog } from "@/components/dashboard/ImportTasksDialog";
+import { ReassignmentRequestsPanel } from "@/components/dashboard/ReassignmentRequestsPanel";
+import { SavedTaskView, Task, TaskFilters, TaskSort, User } from "@/lib/types";
+import { CalendarDays, Columns3, GanttChart, LayoutGrid, Plus, Search, Upload } from "lucide-react";
+import { getTasksForUser, getUserById, getVisibleTasks } from "@/lib/dataService.ts";
+import { buildTaskHierarchy, flattenTaskHierarchy } from "@/lib/taskHierarchy";
+import { getOpenBlockers } from "@/lib/taskDependencies";
+import { getSelectionRange } from "@/lib/bulkActions";
+import { buildTaskViewParams, DEFAULT_TASK_SORT, matchesTaskFilters, parseTaskViewParams, sortTasks } from "@/lib/taskFilters";
+import { matchesTaskQuery, parseTaskQuery, QueryContext } from "@/lib/taskQuery";
 
 // Context type for user data from AppLayout
 interface AppLayoutContext {
   currentUser: User;
 }
 
+type TasksViewMode = 'grid' | 'board' | 'calendar' | 'timeline';
+
+const VIEW_MODE_STORAGE_KEY = 'tasksViewMode';
+const SWIMLANE_STORAGE_KEY = 'tasksBoardSwimlane';
+
 export default function Tasks() {
-  const [searchParams] = useSearchParams();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [searchParams, setSearchParams] = useSearchParams();
   const [isTaskFormOpen, setIsTaskFormOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | undefined>(undefined);
   const [refreshKey, setRefreshKey] = useState(0);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [expandedTaskIds, setExpandedTaskIds] = useState<Set<string>>(new Set());
+  const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set());
+  const [selectionAnchorId, setSelectionAnchorId] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<TasksViewMode>(
+    () => (localStorage.getItem(VIEW_MODE_STORAGE_KEY) as TasksViewMode) || 'grid'
+  );
+  const [swimlane, setSwimlane] = useState<BoardSwimlane>(
+    () => (localStorage.getItem(SWIMLANE_STORAGE_KEY) as BoardSwimlane) || 'none'
+  );
   
   // Get user from AppLayout context
   const { currentUser } = useOutletContext<AppLayoutContext>();
   const memberIdFromUrl = searchParams.get('memberId');
 
+  // Filters and sort live in the query string so any view can be shared as a link
+  const { filters, sort } = parseTaskViewParams(searchParams);
+
   // Load tasks based on user role and URL parameters
   useEffect(() => {
     const loadTasks = async () => {
@@ -53,34 +84,11 @@ export default function Tasks() {
         } else {
           // Loading tasks based on user role
           console.log('Tasks: Loading tasks for user role:', currentUser.role);
-          
-          switch (currentUser.role) {
-            case 'super_admin':
-            case 'manager':
-              // Admin and managers can see all tasks or team tasks
-              try {
-                loadedTasks = await getAllTasks();
-              } catch (error) {
-                console.log('All tasks not available, falling back to team tasks');
-                loadedTasks = await getTasksForTeam(currentUser.id);
-              }
-              break;
-              
-            case 'supervisor':
-              // Supervisors see their team's tasks
-              loadedTasks = await getTasksForTeam(currentUser.id);
-              break;
-              
-            case 'member':
-            default:
-              // Members see only their own tasks
-              loadedTasks = await getTasksForUser(currentUser.id);
-              break;
-          }
+          loadedTasks = await getVisibleTasks(currentUser);
         }
 
         console.log('Tasks: Loaded tasks:', loadedTasks.length);
-        setTasks(Array.isArray(loadedTasks) ? loadedTasks : []);
+        setTasks(Array.isArray(loadedTasks) ? buildTaskHierarchy(loadedTasks) : []);
         
       } catch (error) {
         console.error('Tasks: Error loading tasks:', error);
@@ -96,20 +104,131 @@ export default function Tasks() {
     }
   }, [currentUser, memberIdFromUrl, refreshKey]);
   
-  // Filter tasks based on search and status
-  const filteredTasks = tasks.filter(task => {
-    const matchesSearch = task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                        task.description.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    const matchesStatus = statusFilter === "all" || 
-                        (statusFilter === "completed" && task.status === TaskStatus.COMPLETED) ||
-                        (statusFilter === "in-progress" && task.status === TaskStatus.IN_PROGRESS) ||
-                        (statusFilter === "not-started" && task.status === TaskStatus.NOT_STARTED) ||
-                        (statusFilter === "overdue" && new Date(task.targetDate) < new Date() && 
-                          task.status !== TaskStatus.COMPLETED);
-    
-    return matchesSearch && matchesStatus;
-  });
+  const allTasks = flattenTaskHierarchy(tasks);
+
+  const assigneeOptions = Array.from(new Set(allTasks.map(task => task.assigneeId).filter(Boolean)))
+    .map(id => ({ value: id, label: getUserById(id)?.name || "Unknown User" }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+  const tagOptions = Array.from(new Set(allTasks.flatMap(task => task.tags || []))).sort();
+
+  // The search box accepts key:value terms as well as plain text
+  const query = parseTaskQuery(filters.search || "");
+  const queryContext: QueryContext = {
+    currentUserId: currentUser?.id,
+    users: assigneeOptions.map(option => ({ id: option.value, name: option.label }))
+  };
+  const matchesFilters = (task: Task) =>
+    matchesTaskFilters(task, { ...filters, search: undefined }) && matchesTaskQuery(task, query, queryContext);
+
+  // Keep a parent visible when it or any of its subtasks matches
+  const filteredTasks = sortTasks(tasks.filter(task => flattenTaskHierarchy([task]).some(matchesFilters)), sort);
+
+  // Every task matching the filters, including subtasks
+  const matchingTasks = sortTasks(allTasks.filter(matchesFilters), sort);
+  const hasActiveFilters = buildTaskViewParams(filters, DEFAULT_TASK_SORT).toString() !== "";
+  // Tasks hidden by the current filters stay out of bulk actions
+  const selectedTasks = matchingTasks.filter(task => selectedTaskIds.has(task.id));
+
+  // Cards in the order they appear on screen, for shift-click ranges
+  const collectVisibleIds = (taskList: Task[]): string[] => taskList.flatMap(task => [
+    task.id,
+    ...(expandedTaskIds.has(task.id) && task.subtasks ? collectVisibleIds(task.subtasks) : [])
+  ]);
+  const visibleTaskIds = viewMode === 'board'
+    ? getBoardTaskIds(matchingTasks, swimlane)
+    : viewMode !== 'grid' ? matchingTasks.map(task => task.id) : collectVisibleIds(filteredTasks);
+  const allMatchingSelected = matchingTasks.length > 0 && matchingTasks.every(task => selectedTaskIds.has(task.id));
+
+  const updateView = (nextFilters: TaskFilters, nextSort: TaskSort) => {
+    const current = new URLSearchParams(memberIdFromUrl ? { memberId: memberIdFromUrl } : {});
+    setSearchParams(buildTaskViewParams(nextFilters, nextSort, current), { replace: true });
+  };
+
+  const handleApplyView = (view: SavedTaskView) => {
+    updateView(view.filters, view.sort || DEFAULT_TASK_SORT);
+  };
+
+  const handleViewModeChange = (mode: TasksViewMode) => {
+    setViewMode(mode);
+    localStorage.setItem(VIEW_MODE_STORAGE_KEY, mode);
+  };
+
+  const handleSwimlaneChange = (value: string) => {
+    setSwimlane(value as BoardSwimlane);
+    localStorage.setItem(SWIMLANE_STORAGE_KEY, value);
+  };
+
+  const handleToggleSubtasks = (task: Task) => {
+    setExpandedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(task.id)) {
+        next.delete(task.id);
+      } else {
+        next.add(task.id);
+      }
+      return next;
+    });
+  };
+
+  // Click toggles one task; shift-click selects everything between it and the last clicked task
+  const handleSelectTask = (task: Task, shiftKey: boolean) => {
+    setSelectedTaskIds(prev => {
+      const next = new Set(prev);
+      if (shiftKey && selectionAnchorId) {
+        getSelectionRange(visibleTaskIds, selectionAnchorId, task.id).forEach(id => next.add(id));
+      } else if (next.has(task.id)) {
+        next.delete(task.id);
+      } else {
+        next.add(task.id);
+      }
+      return next;
+    });
+    setSelectionAnchorId(task.id);
+  };
+
+  const handleSelectAllMatching = () => {
+    setSelectedTaskIds(allMatchingSelected ? new Set() : new Set(matchingTasks.map(task => task.id)));
+    setSelectionAnchorId(null);
+  };
+
+  const handleClearSelection = () => {
+    setSelectedTaskIds(new Set());
+    setSelectionAnchorId(null);
+  };
+
+  const handleBulkComplete = (failedTaskIds: string[]) => {
+    setSelectedTaskIds(new Set(failedTaskIds));
+    setSelectionAnchorId(null);
+    handleTaskSuccess();
+  };
+
+  // Render a task card followed by its subtasks when expanded
+  const renderTaskWithSubtasks = (task: Task) => {
+    const isExpanded = expandedTaskIds.has(task.id);
+    return [
+      <TaskCard 
+        key={`${task.id}-${refreshKey}`} 
+        task={task}
+        onEdit={handleEditTask}
+        refetch={handleTaskSuccess}
+        subtasksExpanded={isExpanded}
+        onToggleSubtasks={handleToggleSubtasks}
+        openBlockers={getOpenBlockers(task, allTasks)}
+        selected={selectedTaskIds.has(task.id)}
+        onSelect={handleSelectTask}
+      />,
+      isExpanded && task.subtasks && task.subtasks.length > 0 && (
+        <div 
+          key={`${task.id}-subtasks-${refreshKey}`} 
+          className="col-span-full border-l-2 border-primary/20 pl-4"
+        >
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {task.subtasks.flatMap(renderTaskWithSubtasks)}
+          </div>
+        </div>
+      )
+    ];
+  };
 
   const handleAddTask = () => {
     setEditingTask(undefined);
@@ -167,46 +286,114 @@ export default function Tasks() {
             }
           </p>
         </div>
-        <Button onClick={handleAddTask}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create New Task
-        </Button>
+        <div className="flex gap-2">
+          <div className="flex rounded-md border">
+            <Button
+              variant={viewMode === 'grid' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="rounded-r-none"
+              onClick={() => handleViewModeChange('grid')}
+            >
+              <LayoutGrid className="h-4 w-4 mr-1" />
+              Grid
+            </Button>
+            <Button
+              variant={viewMode === 'board' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="rounded-none"
+              onClick={() => handleViewModeChange('board')}
+            >
+              <Columns3 className="h-4 w-4 mr-1" />
+              Board
+            </Button>
+            <Button
+              variant={viewMode === 'calendar' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="rounded-none"
+              onClick={() => handleViewModeChange('calendar')}
+            >
+              <CalendarDays className="h-4 w-4 mr-1" />
+              Calendar
+            </Button>
+            <Button
+              variant={viewMode === 'timeline' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="rounded-l-none"
+              onClick={() => handleViewModeChange('timeline')}
+            >
+              <GanttChart className="h-4 w-4 mr-1" />
+              Timeline
+            </Button>
+          </div>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button onClick={handleAddTask}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create New Task
+          </Button>
+        </div>
       </div>
 
+      <ReassignmentRequestsPanel currentUser={currentUser} onDecided={handleTaskSuccess} />
+
       <Card>
         <CardHeader className="pb-3">
-          <CardTitle>Filter Tasks</CardTitle>
+          <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+            <CardTitle>Filter Tasks</CardTitle>
+            <div className="flex flex-wrap items-center gap-2">
+              <SavedViewsBar filters={filters} sort={sort} onApply={handleApplyView} />
+              <TaskExportMenu tasks={matchingTasks} />
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
-          <div className="flex flex-col gap-4 md:flex-row">
-            <div className="flex-1 relative">
-              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search tasks..."
-                className="pl-9"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-              />
-            </div>
-            <Select
-              defaultValue="all"
-              onValueChange={setStatusFilter}
-            >
-              <SelectTrigger className="w-full md:w-[180px]">
-                <SelectValue placeholder="Filter by status" />
+          <TaskFilterPanel
+            filters={filters}
+            sort={sort}
+            onFiltersChange={(nextFilters) => updateView(nextFilters, sort)}
+            onSortChange={(nextSort) => updateView(filters, nextSort)}
+            assigneeOptions={assigneeOptions}
+            tagOptions={tagOptions}
+            queryContext={queryContext}
+          />
+          {viewMode === 'board' && (
+            <Select value={swimlane} onValueChange={handleSwimlaneChange}>
+              <SelectTrigger className="mt-4 w-full md:w-[180px]">
+                <SelectValue placeholder="Swimlanes" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Tasks</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="in-progress">In Progress</SelectItem>
-                <SelectItem value="not-started">Not Started</SelectItem>
-                <SelectItem value="overdue">Overdue</SelectItem>
+                <SelectItem value="none">No swimlanes</SelectItem>
+                <SelectItem value="assignee">By assignee</SelectItem>
+                <SelectItem value="priority">By priority</SelectItem>
               </SelectContent>
             </Select>
+          )}
+          <div className="flex items-center gap-2 pt-4">
+            <Checkbox
+              id="select-all-tasks"
+              checked={allMatchingSelected}
+              onCheckedChange={handleSelectAllMatching}
+              disabled={matchingTasks.length === 0}
+            />
+            <label htmlFor="select-all-tasks" className="text-sm text-muted-foreground">
+              Select all {matchingTasks.length} matching task{matchingTasks.length === 1 ? '' : 's'}
+            </label>
           </div>
         </CardContent>
       </Card>
 
+      {selectedTasks.length > 0 && (
+        <BulkActionBar
+          selectedTasks={selectedTasks}
+          allTasks={allTasks}
+          currentUser={currentUser}
+          onClearSelection={handleClearSelection}
+          onComplete={handleBulkComplete}
+        />
+      )}
+
       {error && (
         <div className="text-center py-8">
           <p className="text-red-500 mb-4">{error}</p>
@@ -219,16 +406,36 @@ export default function Tasks() {
         </div>
       )}
 
-      {!error && filteredTasks.length > 0 ? (
+      {!error && viewMode === 'calendar' ? (
+        <TaskCalendar
+          tasks={matchingTasks}
+          allTasks={allTasks}
+          currentUser={currentUser}
+          onEdit={handleEditTask}
+          refetch={handleTaskSuccess}
+        />
+      ) : !error && viewMode === 'timeline' ? (
+        <TaskTimeline
+          tasks={matchingTasks}
+          currentUser={currentUser}
+          onEdit={handleEditTask}
+          refetch={handleTaskSuccess}
+        />
+      ) : !error && filteredTasks.length > 0 && viewMode === 'board' ? (
+        <TaskBoard
+          key={refreshKey}
+          tasks={matchingTasks}
+          allTasks={allTasks}
+          currentUser={currentUser}
+          swimlane={swimlane}
+          onEdit={handleEditTask}
+          refetch={handleTaskSuccess}
+          selectedTaskIds={selectedTaskIds}
+          onSelectTask={handleSelectTask}
+        />
+      ) : !error && filteredTasks.length > 0 ? (
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {filteredTasks.map(task => (
-            <TaskCard 
-              key={`${task.id}-${refreshKey}`} 
-              task={task}
-              onEdit={handleEditTask}
-              refetch={handleTaskSuccess}
-            />
-          ))}
+          {filteredTasks.flatMap(renderTaskWithSubtasks)}
         </div>
       ) : !error && !loading ? (
         <div className="flex flex-col items-center justify-center py-12 text-center">
@@ -237,7 +444,7 @@ export default function Tasks() {
           </div>
           <h3 className="text-lg font-medium">No tasks found</h3>
           <p className="text-muted-foreground mt-1 mb-4">
-            {searchQuery || statusFilter !== "all" ? 
+            {hasActiveFilters ? 
               "Try a different search term or filter" : 
               "Create a new task to get started"
             }
@@ -254,6 +461,14 @@ export default function Tasks() {
         onOpenChange={setIsTaskFormOpen}
         task={editingTask}
         onSuccess={handleTaskSuccess}
+        availableTasks={allTasks}
+      />
+
+      <ImportTasksDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        currentUser={currentUser}
+        onImported={handleTaskSuccess}
       />
     </div>
   );